@@ -0,0 +1,345 @@
+import { createHash, createPublicKey, timingSafeEqual, verify, constants, type JsonWebKey, type KeyObject } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { getActiveConfig } from './config';
+import { logger } from './logger';
+
+export type Principal = {
+  type: 'api-key' | 'jwt';
+  subject: string;
+  scopes: string[];
+  credential: string;
+  expiresAt?: number;
+  claims?: Record<string, unknown>;
+};
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// The credential could not be checked at all (e.g. the token issuer is unreachable); the caller should retry later.
+export class AuthUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthUnavailableError';
+  }
+}
+
+export type HttpAuthenticator = {
+  schemes: string[];
+  authenticate(getHeader: (name: string) => string | undefined): Promise<Principal>;
+};
+
+const apiKeysFileSchema = z.object({
+  keys: z.array(
+    z
+      .object({
+        id: z.string().min(1),
+        key: z.string().min(1).optional(),
+        sha256: z
+          .string()
+          .regex(/^[0-9a-f]{64}$/i)
+          .optional(),
+        scopes: z.array(z.string()).optional(),
+      })
+      .refine((entry) => entry.key !== undefined || entry.sha256 !== undefined, { message: 'each key needs `key` or `sha256`' })
+  ),
+});
+
+const jwksSchema = z.object({
+  keys: z.array(z.record(z.any())),
+});
+
+type ApiKeyEntry = {
+  id: string;
+  digest: Buffer;
+  scopes: string[];
+};
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function readJsonFile(filePath: string, label: string): unknown {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read ${label} ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+export function loadApiKeys(filePath: string): ApiKeyEntry[] {
+  const parsed = apiKeysFileSchema.safeParse(readJsonFile(filePath, 'API keys file'));
+  if (!parsed.success) {
+    throw new Error(`Invalid API keys file ${filePath}: ${parsed.error.issues.map((issue) => `${issue.path.join('.')} ${issue.message}`).join('; ')}`);
+  }
+  return parsed.data.keys.map((entry) => ({
+    id: entry.id,
+    digest: entry.sha256 ? Buffer.from(entry.sha256, 'hex') : sha256(entry.key!),
+    scopes: entry.scopes ?? [],
+  }));
+}
+
+export function createApiKeyAuthenticator(keys: ApiKeyEntry[], header: string): HttpAuthenticator {
+  return {
+    schemes: ['api-key'],
+    async authenticate(getHeader) {
+      const presented = getHeader(header)?.trim();
+      if (!presented) {
+        throw new AuthError(`Missing ${header} header`);
+      }
+      // Compare fixed-length digests so lookup time does not leak key contents.
+      const digest = sha256(presented);
+      const match = keys.find((entry) => timingSafeEqual(entry.digest, digest));
+      if (!match) {
+        throw new AuthError('Invalid API key');
+      }
+      return { type: 'api-key', subject: match.id, scopes: match.scopes, credential: presented };
+    },
+  };
+}
+
+const JWT_ALGORITHMS: Record<string, { hash: string | null; kty: string; options?: Record<string, unknown> }> = {
+  RS256: { hash: 'sha256', kty: 'RSA' },
+  RS384: { hash: 'sha384', kty: 'RSA' },
+  RS512: { hash: 'sha512', kty: 'RSA' },
+  PS256: { hash: 'sha256', kty: 'RSA', options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } },
+  PS384: { hash: 'sha384', kty: 'RSA', options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } },
+  PS512: { hash: 'sha512', kty: 'RSA', options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } },
+  ES256: { hash: 'sha256', kty: 'EC', options: { dsaEncoding: 'ieee-p1363' } },
+  ES384: { hash: 'sha384', kty: 'EC', options: { dsaEncoding: 'ieee-p1363' } },
+  ES512: { hash: 'sha512', kty: 'EC', options: { dsaEncoding: 'ieee-p1363' } },
+  EdDSA: { hash: null, kty: 'OKP' },
+};
+
+export type JwtOptions = {
+  audiences: string[];
+  issuer?: string;
+  clockSkewSeconds: number;
+  now?: () => number;
+};
+
+// Resolves the verification key for a token header; issuer-backed sources refetch on unknown `kid`s.
+export type KeySource = (kid: string | undefined, kty: string) => Promise<KeyObject | undefined>;
+
+function selectKey(keys: Record<string, unknown>[], kid: string | undefined, kty: string): KeyObject | undefined {
+  const candidates = keys.filter((jwk) => jwk.kty === kty && (jwk.use === undefined || jwk.use === 'sig'));
+  const jwk = kid ? candidates.find((candidate) => candidate.kid === kid) : candidates.length === 1 ? candidates[0] : undefined;
+  return jwk ? createPublicKey({ key: jwk as JsonWebKey, format: 'jwk' }) : undefined;
+}
+
+export function staticKeySource(jwks: unknown): KeySource {
+  const parsed = jwksSchema.safeParse(jwks);
+  if (!parsed.success) {
+    throw new Error('JWKS must be an object with a `keys` array');
+  }
+  return async (kid, kty) => selectKey(parsed.data.keys, kid, kty);
+}
+
+const JWKS_TTL_MS = 10 * 60_000;
+const JWKS_REFRESH_MIN_INTERVAL_MS = 30_000;
+// Requests wait on key loading, so a hung issuer must fail them quickly instead of holding them open.
+const JWKS_FETCH_TIMEOUT_MS = 5_000;
+
+async function fetchIssuerJson(url: string): Promise<unknown> {
+  const res = await fetch(url, { signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS) });
+  if (!res.ok) {
+    throw new Error(`${url} returned ${res.status}`);
+  }
+  return res.json();
+}
+
+export function issuerKeySource(issuer: string): KeySource {
+  let keys: Record<string, unknown>[] = [];
+  let fetchedAt = 0;
+
+  async function refresh(): Promise<void> {
+    const discoveryURL = `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+    try {
+      const discovery = (await fetchIssuerJson(discoveryURL)) as { jwks_uri?: unknown } | null;
+      if (typeof discovery?.jwks_uri !== 'string') {
+        throw new Error(`OIDC discovery at ${discoveryURL} has no jwks_uri`);
+      }
+      keys = jwksSchema.parse(await fetchIssuerJson(discovery.jwks_uri)).keys;
+    } catch (error) {
+      // The details are for operators; callers only learn that their token could not be checked right now.
+      logger.error('Failed to load JWKS for MCP HTTP auth', { issuer, error });
+      throw new AuthUnavailableError('The token issuer could not be reached');
+    }
+    fetchedAt = Date.now();
+    logger.info('Loaded JWKS for MCP HTTP auth', { issuer, keys: keys.length });
+  }
+
+  return async (kid, kty) => {
+    if (Date.now() - fetchedAt > JWKS_TTL_MS) {
+      await refresh();
+    }
+    const key = selectKey(keys, kid, kty);
+    if (key || Date.now() - fetchedAt < JWKS_REFRESH_MIN_INTERVAL_MS) {
+      return key;
+    }
+    // Unknown kid after the cool-down: the issuer may have rotated keys.
+    await refresh();
+    return selectKey(keys, kid, kty);
+  };
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  const decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as unknown;
+  if (typeof decoded !== 'object' || decoded === null || Array.isArray(decoded)) {
+    throw new Error('not an object');
+  }
+  return decoded as Record<string, unknown>;
+}
+
+export async function verifyJwt(token: string, keySource: KeySource, options: JwtOptions): Promise<Principal> {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new AuthError('Malformed JWT');
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments as [string, string, string];
+
+  let header: Record<string, unknown>;
+  let claims: Record<string, unknown>;
+  try {
+    header = decodeSegment(encodedHeader);
+    claims = decodeSegment(encodedPayload);
+  } catch {
+    throw new AuthError('Malformed JWT');
+  }
+
+  const algorithm = typeof header.alg === 'string' && Object.prototype.hasOwnProperty.call(JWT_ALGORITHMS, header.alg) ? JWT_ALGORITHMS[header.alg] : undefined;
+  if (!algorithm) {
+    throw new AuthError(`Unsupported JWT algorithm ${String(header.alg)}`);
+  }
+  const key = await keySource(typeof header.kid === 'string' ? header.kid : undefined, algorithm.kty);
+  if (!key) {
+    throw new AuthError('No matching signing key for JWT');
+  }
+
+  const signed = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+  const signature = Buffer.from(encodedSignature, 'base64url');
+  let valid = false;
+  try {
+    valid = verify(algorithm.hash, signed, algorithm.options ? { key, ...algorithm.options } : key, signature);
+  } catch {
+    valid = false;
+  }
+  if (!valid) {
+    throw new AuthError('Invalid JWT signature');
+  }
+
+  const nowSeconds = Math.floor((options.now ?? Date.now)() / 1000);
+  if (typeof claims.exp !== 'number') {
+    throw new AuthError('JWT has no exp claim');
+  }
+  if (claims.exp + options.clockSkewSeconds <= nowSeconds) {
+    throw new AuthError('JWT has expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - options.clockSkewSeconds > nowSeconds) {
+    throw new AuthError('JWT is not yet valid');
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new AuthError('JWT issuer is not trusted');
+  }
+  if (options.audiences.length > 0) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.some((audience) => typeof audience === 'string' && options.audiences.includes(audience))) {
+      throw new AuthError('JWT audience is not accepted');
+    }
+  }
+
+  const subject = typeof claims.sub === 'string' ? claims.sub : typeof claims.client_id === 'string' ? claims.client_id : undefined;
+  if (!subject) {
+    throw new AuthError('JWT has no sub claim');
+  }
+  const scopes = typeof claims.scope === 'string' ? claims.scope.split(' ').filter(Boolean) : Array.isArray(claims.scp) ? claims.scp.map(String) : [];
+
+  return { type: 'jwt', subject, scopes, credential: token, expiresAt: claims.exp, claims };
+}
+
+export function createJwtAuthenticator(keySource: KeySource, options: JwtOptions): HttpAuthenticator {
+  return {
+    schemes: ['bearer'],
+    async authenticate(getHeader) {
+      const match = /^Bearer\s+(.+)$/i.exec(getHeader('authorization')?.trim() ?? '');
+      if (!match?.[1]) {
+        throw new AuthError('Missing bearer token');
+      }
+      return verifyJwt(match[1].trim(), keySource, options);
+    },
+  };
+}
+
+// Accepts a request when any configured scheme does; the error names what every scheme expected.
+export function combineAuthenticators(authenticators: HttpAuthenticator[]): HttpAuthenticator {
+  return {
+    schemes: authenticators.flatMap((authenticator) => authenticator.schemes),
+    async authenticate(getHeader) {
+      const failures: string[] = [];
+      for (const authenticator of authenticators) {
+        try {
+          return await authenticator.authenticate(getHeader);
+        } catch (error) {
+          if (!(error instanceof AuthError)) {
+            throw error;
+          }
+          failures.push(error.message);
+        }
+      }
+      throw new AuthError(failures.join('; '));
+    },
+  };
+}
+
+function splitList(value: string | undefined): string[] {
+  return value?.split(',').map((s) => s.trim()).filter(Boolean) ?? [];
+}
+
+/**
+ * Builds the inbound authenticator for `/mcp` from MCP_HTTP_AUTH (`api-key`, `jwt`, or both comma-separated),
+ * falling back to `http.auth` in the config file. Returns undefined when the endpoint is unauthenticated.
+ */
+export function createHttpAuthenticator(): HttpAuthenticator | undefined {
+  const configured = getActiveConfig()?.http?.auth;
+  const modes = (process.env.MCP_HTTP_AUTH !== undefined ? splitList(process.env.MCP_HTTP_AUTH.toLowerCase()) : configured?.modes ?? []).filter(
+    (mode) => mode !== 'none'
+  );
+  if (modes.length === 0) {
+    return undefined;
+  }
+
+  const authenticators = modes.map((mode): HttpAuthenticator => {
+    if (mode === 'api-key') {
+      const filePath = process.env.MCP_HTTP_API_KEYS_FILE || configured?.apiKeysFile;
+      if (!filePath) {
+        throw new Error('MCP_HTTP_AUTH=api-key requires MCP_HTTP_API_KEYS_FILE');
+      }
+      return createApiKeyAuthenticator(loadApiKeys(filePath), (process.env.MCP_HTTP_API_KEY_HEADER || configured?.apiKeyHeader || 'x-api-key').toLowerCase());
+    }
+    if (mode === 'jwt') {
+      const jwksFile = process.env.MCP_HTTP_JWT_JWKS_FILE || configured?.jwt?.jwksFile;
+      const issuer = process.env.MCP_HTTP_JWT_ISSUER || configured?.jwt?.issuer;
+      const audiences = process.env.MCP_HTTP_JWT_AUDIENCE ? splitList(process.env.MCP_HTTP_JWT_AUDIENCE) : configured?.jwt?.audiences ?? [];
+      if (!jwksFile && !issuer) {
+        throw new Error('MCP_HTTP_AUTH=jwt requires MCP_HTTP_JWT_JWKS_FILE or MCP_HTTP_JWT_ISSUER');
+      }
+      if (audiences.length === 0) {
+        throw new Error('MCP_HTTP_AUTH=jwt requires MCP_HTTP_JWT_AUDIENCE');
+      }
+      const keySource = jwksFile ? staticKeySource(readJsonFile(jwksFile, 'JWKS file')) : issuerKeySource(issuer!);
+      const skew = Number.parseInt(process.env.MCP_HTTP_JWT_CLOCK_SKEW_S ?? '', 10);
+      return createJwtAuthenticator(keySource, {
+        audiences,
+        ...(issuer ? { issuer } : {}),
+        clockSkewSeconds: Number.isNaN(skew) ? configured?.jwt?.clockSkewSeconds ?? 60 : skew,
+      });
+    }
+    throw new Error(`Unknown MCP_HTTP_AUTH mode ${mode}; expected api-key, jwt, or none`);
+  });
+
+  return authenticators.length === 1 ? authenticators[0]! : combineAuthenticators(authenticators);
+}
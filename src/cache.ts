@@ -0,0 +1,125 @@
+import { getActiveConfig } from './config';
+import { logger } from './logger';
+
+export type CacheCapability = 'service' | 'team' | 'metric' | 'providers' | 'completion';
+
+const DEFAULT_TTLS_MS: Record<CacheCapability, number> = {
+  service: 5 * 60_000,
+  team: 5 * 60_000,
+  metric: 10 * 60_000,
+  providers: 10 * 60_000,
+  // Completion candidates are re-read often while someone types, but should pick up new records quickly.
+  completion: 30_000,
+};
+
+function parseNonNegativeInt(value: string | undefined): number | undefined {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed;
+}
+
+// OPSORCH_CACHE_TTL_<CAPABILITY>_MS overrides the default per capability; 0 disables caching for it.
+export function getCacheTtlMs(capability: CacheCapability): number {
+  return (
+    parseNonNegativeInt(process.env[`OPSORCH_CACHE_TTL_${capability.toUpperCase()}_MS`]) ??
+    getActiveConfig()?.cache?.ttlMs?.[capability] ??
+    DEFAULT_TTLS_MS[capability]
+  );
+}
+
+export function getCacheMaxEntries(): number {
+  return parseNonNegativeInt(process.env.OPSORCH_CACHE_MAX_ENTRIES) ?? getActiveConfig()?.cache?.maxEntries ?? 500;
+}
+
+type CacheEntry = {
+  value: unknown;
+  expiresAt: number;
+};
+
+/**
+ * In-process TTL cache with LRU eviction. Concurrent loads for the same key share one in-flight promise,
+ * and failed loads are never cached.
+ */
+export class ResponseCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  // A getter lets the limit follow configuration loaded after the cache was created.
+  constructor(
+    private readonly maxEntries: number | (() => number),
+    private readonly now: () => number = Date.now
+  ) {}
+
+  private limit(): number {
+    return typeof this.maxEntries === 'function' ? this.maxEntries() : this.maxEntries;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert so Map iteration order doubles as least-recently-used order.
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: unknown, ttlMs: number): void {
+    const limit = this.limit();
+    if (limit === 0 || ttlMs <= 0) {
+      return;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + ttlMs });
+    while (this.entries.size > limit) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      logger.debug('Evicted OpsOrch Core cache entry', { key: oldest });
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  async getOrLoad<T>(key: string, ttlMs: number, load: () => Promise<T>, options: { refresh?: boolean } = {}): Promise<T> {
+    return (await this.getOrLoadResult(key, ttlMs, load, options)).value;
+  }
+
+  // Like getOrLoad, but also reports whether the value was reused: a cache hit, or a load another caller started.
+  async getOrLoadResult<T>(key: string, ttlMs: number, load: () => Promise<T>, options: { refresh?: boolean } = {}): Promise<{ value: T; reused: boolean }> {
+    if (!options.refresh) {
+      const cached = this.get(key);
+      if (cached !== undefined) {
+        logger.debug('OpsOrch Core cache hit', { key });
+        return { value: cached as T, reused: true };
+      }
+      const pending = this.inFlight.get(key);
+      if (pending) {
+        logger.debug('Joined in-flight OpsOrch Core call', { key });
+        return { value: (await pending) as T, reused: true };
+      }
+    }
+
+    const promise = load().then((value) => {
+      this.set(key, value, ttlMs);
+      return value;
+    });
+    this.inFlight.set(key, promise);
+    try {
+      return { value: await promise, reused: false };
+    } finally {
+      if (this.inFlight.get(key) === promise) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { createHash } from 'node:crypto';
+
+// JSON with object keys sorted recursively, so logically equal payloads serialize identically.
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) => {
+    if (nested === null || typeof nested !== 'object' || Array.isArray(nested)) {
+      return nested;
+    }
+    return Object.fromEntries(
+      Object.keys(nested)
+        .sort()
+        .filter((key) => nested[key] !== undefined)
+        .map((key) => [key, nested[key]])
+    );
+  });
+}
+
+export function fingerprint(value: unknown, length = 16): string {
+  return createHash('sha256').update(canonicalJson(value)).digest('hex').slice(0, length);
+}
@@ -0,0 +1,52 @@
+// MCP caps a completion response at 100 values; `total` still counts every match.
+export const MAX_COMPLETIONS = 100;
+
+export type CompletionResult = {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+};
+
+// Lower is better: exact, prefix, prefix of a later word, substring, then the typed characters in order.
+function matchRank(candidate: string, typed: string): number | undefined {
+  const lower = candidate.toLowerCase();
+  if (lower === typed) {
+    return 0;
+  }
+  if (lower.startsWith(typed)) {
+    return 1;
+  }
+  const index = lower.indexOf(typed);
+  if (index > 0 && /[^a-z0-9]/.test(lower[index - 1]!)) {
+    return 2;
+  }
+  if (index > 0) {
+    return 3;
+  }
+  let position = 0;
+  for (const char of lower) {
+    if (char === typed[position]) {
+      position++;
+    }
+  }
+  return position === typed.length ? 4 : undefined;
+}
+
+/**
+ * Filters candidates against what the user typed so far, case-insensitively, best matches first. Fuzzy matches
+ * (e.g. `chkapi` for `checkout-api`) rank below any prefix or substring match.
+ */
+export function matchCompletions(candidates: Iterable<string>, value: string): CompletionResult {
+  const typed = value.trim().toLowerCase();
+  const ranked = [...new Set(candidates)]
+    .flatMap((candidate) => {
+      const rank = typed === '' ? 0 : matchRank(candidate, typed);
+      return rank === undefined ? [] : [{ candidate, rank }];
+    })
+    .sort((a, b) => a.rank - b.rank || a.candidate.length - b.candidate.length || a.candidate.localeCompare(b.candidate));
+  return {
+    values: ranked.slice(0, MAX_COMPLETIONS).map(({ candidate }) => candidate),
+    total: ranked.length,
+    hasMore: ranked.length > MAX_COMPLETIONS,
+  };
+}
@@ -0,0 +1,310 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+const positiveInt = z.number().int().positive();
+const nonNegativeInt = z.number().int().nonnegative();
+
+// A token is given inline, read from an environment variable, or read from a file (e.g. a mounted secret).
+const tokenSourceSchema = z.union([
+  z.string().min(1),
+  z.object({ env: z.string().min(1) }).strict(),
+  z.object({ file: z.string().min(1) }).strict(),
+]);
+
+const coreProfileSchema = z
+  .object({
+    url: z.string().url(),
+    token: tokenSourceSchema.optional(),
+    timeoutMs: positiveInt.optional(),
+    retry: z
+      .object({
+        maxRetries: nonNegativeInt,
+        baseDelayMs: nonNegativeInt,
+        maxDelayMs: nonNegativeInt,
+        keyedWrites: z.boolean(),
+      })
+      .partial()
+      .strict()
+      .optional(),
+    pagination: z
+      .object({
+        offset: z.boolean(),
+      })
+      .partial()
+      .strict()
+      .optional(),
+    auth: z
+      .object({
+        mode: z.enum(['static', 'passthrough']),
+        header: z.string().min(1),
+        tokenExchangeModule: z.string().min(1),
+        allowDemoToken: z.boolean(),
+      })
+      .partial()
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export const configSchema = z
+  .object({
+    defaultProfile: z.string().optional(),
+    profiles: z.record(coreProfileSchema).refine((profiles) => Object.keys(profiles).length > 0, { message: 'define at least one profile' }),
+    federation: z
+      .object({
+        profiles: z.array(z.string()).min(2, { message: 'federation needs at least two profiles' }),
+      })
+      .strict()
+      .optional(),
+    logLevel: z.enum(['debug', 'info', 'warn', 'error']).optional(),
+    responseValidation: z.enum(['strict', 'lenient', 'off']).optional(),
+    writes: z
+      .object({
+        enabled: z.boolean(),
+      })
+      .strict()
+      .optional(),
+    cache: z
+      .object({
+        maxEntries: nonNegativeInt,
+        ttlMs: z
+          .object({
+            service: nonNegativeInt,
+            team: nonNegativeInt,
+            metric: nonNegativeInt,
+            providers: nonNegativeInt,
+            completion: nonNegativeInt,
+          })
+          .partial()
+          .strict(),
+      })
+      .partial()
+      .strict()
+      .optional(),
+    pagination: z
+      .object({
+        fetchAllMaxItems: positiveInt,
+      })
+      .partial()
+      .strict()
+      .optional(),
+    subscriptions: z
+      .object({
+        pollIntervalMs: positiveInt,
+        maxPerSession: positiveInt,
+        maxTotal: positiveInt,
+      })
+      .partial()
+      .strict()
+      .optional(),
+    http: z
+      .object({
+        port: nonNegativeInt,
+        allowOrigins: z.array(z.string()),
+        allowHosts: z.array(z.string()),
+        sessions: z
+          .object({
+            idleTimeoutMs: positiveInt,
+            maxAgeMs: positiveInt,
+            maxSessions: positiveInt,
+            sweepIntervalMs: positiveInt,
+          })
+          .partial()
+          .strict(),
+        auth: z
+          .object({
+            modes: z.array(z.enum(['api-key', 'jwt'])),
+            apiKeysFile: z.string().min(1),
+            apiKeyHeader: z.string().min(1),
+            jwt: z
+              .object({
+                jwksFile: z.string().min(1),
+                issuer: z.string().url(),
+                audiences: z.array(z.string()).min(1),
+                clockSkewSeconds: nonNegativeInt,
+              })
+              .partial()
+              .strict(),
+          })
+          .partial()
+          .strict(),
+      })
+      .partial()
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type OpsOrchConfig = z.infer<typeof configSchema>;
+
+type CoreProfile = z.infer<typeof coreProfileSchema>;
+
+export type ResolvedCoreProfile = Omit<CoreProfile, 'token'> & { token?: string };
+
+// A named Core instance; federated fan-out runs each branch with one of these as the active target.
+export type CoreTarget = {
+  id: string;
+  core: ResolvedCoreProfile;
+};
+
+export type ResolvedConfig = Omit<OpsOrchConfig, 'profiles' | 'defaultProfile' | 'federation'> & {
+  profile: string;
+  core: ResolvedCoreProfile;
+  federation?: CoreTarget[];
+};
+
+let activeConfig: ResolvedConfig | undefined;
+
+const coreTarget = new AsyncLocalStorage<CoreTarget>();
+
+export function getActiveConfig(): ResolvedConfig | undefined {
+  return activeConfig;
+}
+
+export function getCoreTarget(): CoreTarget | undefined {
+  return coreTarget.getStore();
+}
+
+export function runWithCoreTarget<T>(target: CoreTarget, fn: () => T): T {
+  return coreTarget.run(target, fn);
+}
+
+// Core settings for the current call: the federation target when fanning out, else the selected profile.
+export function getActiveCore(): ResolvedCoreProfile | undefined {
+  return coreTarget.getStore()?.core ?? activeConfig?.core;
+}
+
+export function setActiveConfig(config: ResolvedConfig | undefined): void {
+  activeConfig = config;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `  - ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`).join('\n');
+}
+
+function parseConfigText(text: string, filePath: string): unknown {
+  const extension = path.extname(filePath).toLowerCase();
+  try {
+    return extension === '.yaml' || extension === '.yml' ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Config file ${filePath} is not valid ${extension === '.json' ? 'JSON' : 'YAML'}: ${(error as Error).message}`);
+  }
+}
+
+function resolveToken(source: CoreProfile['token'], profile: string, baseDir: string): string | undefined {
+  if (source === undefined || typeof source === 'string') {
+    return source;
+  }
+  if ('env' in source) {
+    // A missing variable is left for the startup auth check, which explains every way to supply a token.
+    return process.env[source.env] || undefined;
+  }
+  const filePath = path.resolve(baseDir, source.file);
+  try {
+    return readFileSync(filePath, 'utf8').trim() || undefined;
+  } catch (error) {
+    throw new Error(`Profile ${profile}: cannot read token file ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+export function parseConfig(raw: unknown, options: { filePath: string; profile?: string | undefined }): ResolvedConfig {
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid config file ${options.filePath}:\n${formatIssues(parsed.error)}`);
+  }
+
+  const { profiles, defaultProfile, federation, ...rest } = parsed.data;
+  const names = Object.keys(profiles);
+  const selected = options.profile ?? defaultProfile ?? (names.length === 1 ? names[0] : undefined);
+  if (!selected) {
+    throw new Error(`Config file ${options.filePath} defines several profiles (${names.join(', ')}); select one with --profile or OPSORCH_PROFILE`);
+  }
+  const profile = profiles[selected];
+  if (!profile) {
+    throw new Error(`Profile ${selected} is not defined in ${options.filePath}; available profiles: ${names.join(', ')}`);
+  }
+
+  const baseDir = path.dirname(options.filePath);
+  const resolveProfile = (name: string, { token, ...core }: CoreProfile): ResolvedCoreProfile => {
+    const resolvedToken = resolveToken(token, name, baseDir);
+    return { ...core, ...(resolvedToken !== undefined ? { token: resolvedToken } : {}) };
+  };
+
+  const federationTargets = federation?.profiles.map((name): CoreTarget => {
+    const member = profiles[name];
+    if (!member) {
+      throw new Error(`Federation profile ${name} is not defined in ${options.filePath}; available profiles: ${names.join(', ')}`);
+    }
+    if (name.includes(':')) {
+      throw new Error(`Federation profile ${name} cannot contain ':' because it prefixes federated IDs`);
+    }
+    return { id: name, core: resolveProfile(name, member) };
+  });
+
+  return {
+    ...rest,
+    profile: selected,
+    core: resolveProfile(selected, profile),
+    ...(federationTargets ? { federation: federationTargets } : {}),
+  };
+}
+
+export function loadConfigFile(filePath: string, profile?: string): ResolvedConfig {
+  let text: string;
+  try {
+    text = readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read config file ${filePath}: ${(error as Error).message}`);
+  }
+  return parseConfig(parseConfigText(text, filePath), { filePath, profile });
+}
+
+export type CliOptions = {
+  configPath?: string;
+  profile?: string;
+};
+
+export function parseCliArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    const [flag, inline] = arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+    if (flag !== '--config' && flag !== '--profile') {
+      continue;
+    }
+    const value = inline ?? argv[++i];
+    if (!value) {
+      throw new Error(`${flag} requires a value`);
+    }
+    if (flag === '--config') {
+      options.configPath = value;
+    } else {
+      options.profile = value;
+    }
+  }
+  return options;
+}
+
+/**
+ * Loads the config file named by `--config` or OPSORCH_MCP_CONFIG and makes the selected profile active.
+ * Without a config file the server runs from environment variables alone. Environment variables still
+ * override individual file settings.
+ */
+export function configureFromCli(argv: string[] = process.argv.slice(2)): ResolvedConfig | undefined {
+  const cli = parseCliArgs(argv);
+  const configPath = cli.configPath ?? process.env.OPSORCH_MCP_CONFIG;
+  const profile = cli.profile ?? process.env.OPSORCH_PROFILE;
+  if (!configPath) {
+    if (profile) {
+      throw new Error('A profile was selected but no config file was given; pass --config or set OPSORCH_MCP_CONFIG');
+    }
+    setActiveConfig(undefined);
+    return undefined;
+  }
+  const config = loadConfigFile(path.resolve(configPath), profile);
+  setActiveConfig(config);
+  return config;
+}
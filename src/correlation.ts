@@ -0,0 +1,83 @@
+export type DeploymentRelation = 'service' | 'dependency';
+
+export type CorrelationContext = {
+  // When the incident started (epoch ms).
+  at: number;
+  service: string;
+};
+
+export type ScoredDeployment = {
+  deployment: Record<string, unknown>;
+  relation: DeploymentRelation;
+  score: number;
+  reasons: string[];
+};
+
+// Proximity points halve for every hour between the deployment starting and the incident.
+const PROXIMITY_MAX = 50;
+const PROXIMITY_HALF_LIFE_MS = 60 * 60_000;
+const IN_PROGRESS_POINTS = 10;
+const FAILED_POINTS = 25;
+const ROLLED_BACK_POINTS = 20;
+const SAME_SERVICE_POINTS = 25;
+const DEPENDENCY_POINTS = 10;
+
+const FAILED_STATUSES = new Set(['failed', 'failure', 'error', 'errored', 'aborted', 'cancelled', 'canceled']);
+const ROLLED_BACK_STATUSES = new Set(['rolled_back', 'rolledback', 'rollback', 'rolled-back', 'reverted']);
+
+function formatMinutes(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  return minutes < 120 ? `${minutes}m` : `${(minutes / 60).toFixed(1)}h`;
+}
+
+/**
+ * Scores how suspicious one deployment is for an incident. Every point awarded comes with a reason, so the agent
+ * (and the human reading the transcript) can see why a release ranks where it does.
+ */
+export function scoreDeployment(deployment: Record<string, unknown>, context: CorrelationContext): ScoredDeployment {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const startedAt = Date.parse(String(deployment.startedAt));
+  const finishedAt = Date.parse(String(deployment.finishedAt));
+  const lead = context.at - startedAt;
+  if (Number.isNaN(startedAt)) {
+    reasons.push('no usable startedAt: +0 proximity');
+  } else if (lead < 0) {
+    reasons.push(`started ${formatMinutes(-lead)} after the incident began: +0 proximity`);
+  } else {
+    const points = Math.round(PROXIMITY_MAX * 0.5 ** (lead / PROXIMITY_HALF_LIFE_MS));
+    score += points;
+    reasons.push(`started ${formatMinutes(lead)} before the incident: +${points} proximity (halves every hour)`);
+    if (!Number.isNaN(finishedAt) && finishedAt >= context.at) {
+      score += IN_PROGRESS_POINTS;
+      reasons.push(`was still rolling out when the incident began: +${IN_PROGRESS_POINTS}`);
+    }
+  }
+
+  const status = String(deployment.status ?? '').toLowerCase();
+  if (FAILED_STATUSES.has(status)) {
+    score += FAILED_POINTS;
+    reasons.push(`status ${status}: +${FAILED_POINTS}`);
+  } else if (ROLLED_BACK_STATUSES.has(status)) {
+    score += ROLLED_BACK_POINTS;
+    reasons.push(`status ${status}: +${ROLLED_BACK_POINTS}`);
+  }
+
+  const relation: DeploymentRelation = deployment.service === context.service || !deployment.service ? 'service' : 'dependency';
+  if (relation === 'service') {
+    score += SAME_SERVICE_POINTS;
+    reasons.push(`deployed the affected service ${context.service}: +${SAME_SERVICE_POINTS}`);
+  } else {
+    score += DEPENDENCY_POINTS;
+    reasons.push(`deployed dependency ${String(deployment.service)}: +${DEPENDENCY_POINTS}`);
+  }
+
+  return { deployment, relation, score: Math.min(100, score), reasons };
+}
+
+// Highest score first; ties go to the deployment that started closest before the incident.
+export function rankDeployments(deployments: Record<string, unknown>[], context: CorrelationContext): ScoredDeployment[] {
+  const distance = (entry: ScoredDeployment) => Math.abs(context.at - (Date.parse(String(entry.deployment.startedAt)) || 0));
+  return deployments.map((deployment) => scoreDeployment(deployment, context)).sort((a, b) => b.score - a.score || distance(a) - distance(b));
+}
@@ -0,0 +1,175 @@
+export type CoreErrorKind =
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'provider_unavailable'
+  | 'timeout'
+  | 'cancelled'
+  | 'network'
+  | 'invalid_response'
+  | 'internal';
+
+export type CoreErrorDetails = {
+  kind: CoreErrorKind;
+  method: string;
+  path: string;
+  retryable: boolean;
+  status?: number;
+  code?: string;
+  requestId?: string;
+  retryAfterMs?: number;
+};
+
+export class CoreError extends Error {
+  readonly kind: CoreErrorKind;
+  readonly method: string;
+  readonly path: string;
+  readonly retryable: boolean;
+  readonly status: number | undefined;
+  readonly code: string | undefined;
+  readonly requestId: string | undefined;
+  readonly retryAfterMs: number | undefined;
+
+  constructor(message: string, details: CoreErrorDetails) {
+    super(message);
+    this.name = 'CoreError';
+    this.kind = details.kind;
+    this.method = details.method;
+    this.path = details.path;
+    this.retryable = details.retryable;
+    this.status = details.status;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      kind: this.kind,
+      message: this.message,
+      method: this.method,
+      path: this.path,
+      retryable: this.retryable,
+      ...(this.status !== undefined ? { status: this.status } : {}),
+      ...(this.code !== undefined ? { code: this.code } : {}),
+      ...(this.requestId !== undefined ? { requestId: this.requestId } : {}),
+      ...(this.retryAfterMs !== undefined ? { retryAfterMs: this.retryAfterMs } : {}),
+    };
+  }
+}
+
+export type SchemaIssue = {
+  path: string;
+  message: string;
+};
+
+export class ResponseValidationError extends Error {
+  readonly tool: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(tool: string, issues: SchemaIssue[]) {
+    super(`OpsOrch Core response for ${tool} does not match its schema: ${issues.map((issue) => `${issue.path} ${issue.message}`).join('; ')}`);
+    this.name = 'ResponseValidationError';
+    this.tool = tool;
+    this.issues = issues;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      kind: 'invalid_response',
+      message: this.message,
+      tool: this.tool,
+      issues: this.issues,
+      retryable: false,
+    };
+  }
+}
+
+// Arguments that passed the input schema but are still unusable, such as a stale or foreign pagination cursor.
+export class ToolInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolInputError';
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      kind: 'bad_request',
+      message: this.message,
+      retryable: false,
+    };
+  }
+}
+
+// A malformed query string; `column` (1-based) points at the offending character so the caller can fix it.
+export class QuerySyntaxError extends ToolInputError {
+  readonly column: number;
+
+  constructor(message: string, column: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.column = column;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), column: this.column };
+  }
+}
+
+export function kindForStatus(status: number): CoreErrorKind {
+  switch (status) {
+    case 400:
+    case 422:
+      return 'bad_request';
+    case 401:
+      return 'unauthorized';
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not_found';
+    case 408:
+      return 'timeout';
+    case 409:
+      return 'conflict';
+    case 429:
+      return 'rate_limited';
+    case 502:
+    case 503:
+    case 504:
+      return 'provider_unavailable';
+    default:
+      return status >= 400 && status < 500 ? 'bad_request' : 'internal';
+  }
+}
+
+export type ToolErrorResult = {
+  content: { type: 'text'; text: string }[];
+  structuredContent: { error: Record<string, unknown> };
+  isError: true;
+};
+
+// Tool results (rather than protocol errors) let the agent see what failed and decide whether to retry or change arguments.
+export function asToolError(error: unknown): ToolErrorResult {
+  const payload =
+    error instanceof CoreError || error instanceof ResponseValidationError || error instanceof ToolInputError
+      ? error.toJSON()
+      : {
+          kind: 'internal',
+          message: error instanceof Error ? error.message : String(error),
+          retryable: false,
+        };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({ error: payload }, null, 2),
+      },
+    ],
+    structuredContent: { error: payload },
+    isError: true,
+  };
+}
@@ -0,0 +1,233 @@
+import { getActiveConfig, runWithCoreTarget, type CoreTarget } from './config';
+import { CoreError, ToolInputError } from './errors';
+import { logger } from './logger';
+import { paginateQuery, type ItemOrder, type PageSpec, type PaginatedInput } from './pagination';
+import { reportProgress } from './progress';
+
+export type OriginStatus = {
+  origin: string;
+  ok: boolean;
+  count?: number;
+  error?: { kind: string; message: string };
+};
+
+export type FederationReport = {
+  origins: OriginStatus[];
+};
+
+type OriginResult<T> = { target: CoreTarget; ok: true; value: T } | { target: CoreTarget; ok: false; error: unknown };
+
+export function getFederationTargets(): CoreTarget[] | undefined {
+  const targets = getActiveConfig()?.federation;
+  return targets && targets.length > 0 ? targets : undefined;
+}
+
+function describeError(error: unknown): { kind: string; message: string } {
+  if (error instanceof CoreError) {
+    return { kind: error.kind, message: error.message };
+  }
+  return { kind: 'internal', message: error instanceof Error ? error.message : String(error) };
+}
+
+// Runs `fn` once per Core in parallel; each branch sees its own target through getActiveCore()/getCoreTarget().
+async function fanOut<T>(targets: CoreTarget[], fn: (target: CoreTarget) => Promise<T>): Promise<OriginResult<T>[]> {
+  let settled = 0;
+  const settle = (result: OriginResult<T>): OriginResult<T> => {
+    settled++;
+    reportProgress(`Core ${result.target.id} ${result.ok ? 'answered' : 'failed'} (${settled} of ${targets.length})`);
+    return result;
+  };
+  return Promise.all(
+    targets.map((target) =>
+      runWithCoreTarget(target, () => fn(target)).then(
+        (value) => settle({ target, ok: true, value }),
+        (error) => settle({ target, ok: false, error })
+      )
+    )
+  );
+}
+
+// Partial results are fine, but a federated call where no Core answered is a failure like any other.
+function assertAnySucceeded(results: OriginResult<unknown>[]): void {
+  const failures = results.filter((result): result is Extract<OriginResult<unknown>, { ok: false }> => !result.ok);
+  if (failures.length === results.length && failures[0]) {
+    throw failures[0].error;
+  }
+  for (const failure of failures) {
+    logger.warn('Federated OpsOrch Core call failed', { origin: failure.target.id, error: describeError(failure.error) });
+  }
+}
+
+// Federated IDs look like `<origin>:<core id>` so get-* tools can route back to the Core that owns the record.
+export function tagItem(item: unknown, origin: string): unknown {
+  if (item === null || typeof item !== 'object' || Array.isArray(item)) {
+    return item;
+  }
+  const record = item as Record<string, unknown>;
+  const metadata = record.metadata !== null && typeof record.metadata === 'object' ? (record.metadata as Record<string, unknown>) : {};
+  return {
+    ...record,
+    ...(typeof record.id === 'string' ? { id: `${origin}:${record.id}` } : {}),
+    metadata: { ...metadata, origin },
+  };
+}
+
+export function splitOriginId(id: string, targets: CoreTarget[]): { target: CoreTarget; localId: string } {
+  const separator = id.indexOf(':');
+  const origin = separator > 0 ? id.slice(0, separator) : '';
+  const target = targets.find((candidate) => candidate.id === origin);
+  if (!target) {
+    throw new ToolInputError(
+      `id ${id} has no known origin prefix; federated IDs look like <origin>:<id> with origin one of ${targets.map((t) => t.id).join(', ')}`
+    );
+  }
+  return { target, localId: id.slice(separator + 1) };
+}
+
+// The Core a federated ID routes to; undefined outside federation.
+export function originOf(id: string): string | undefined {
+  const targets = getFederationTargets();
+  return targets ? splitOriginId(id, targets).target.id : undefined;
+}
+
+/**
+ * Runs a by-ID Core call against the Core named by the ID's origin prefix and tags the result with that origin.
+ * Outside federation the ID is passed through unchanged.
+ */
+export async function routeById<T>(id: string, load: (localId: string) => Promise<T>): Promise<T> {
+  const targets = getFederationTargets();
+  if (!targets) {
+    return load(id);
+  }
+  const { target, localId } = splitOriginId(id, targets);
+  const data = await runWithCoreTarget(target, () => load(localId));
+  return (Array.isArray(data) ? data.map((item) => tagItem(item, target.id)) : tagItem(data, target.id)) as T;
+}
+
+// Drops a known origin prefix from an ID that is being sent back to Core inside another record's payload.
+export function stripOrigin(id: string): string {
+  const targets = getFederationTargets();
+  return targets ? splitOriginId(id, targets).localId : id;
+}
+
+/**
+ * Runs a call that creates a record on one Core. Under federation the caller must name the `origin` Core;
+ * otherwise `origin` is ignored and the configured Core is used.
+ */
+export async function routeToOrigin<T>(origin: string | undefined, load: () => Promise<T>): Promise<T> {
+  const targets = getFederationTargets();
+  if (!targets) {
+    return load();
+  }
+  const target = targets.find((candidate) => candidate.id === origin);
+  if (!target) {
+    throw new ToolInputError(`origin is required in federation mode and must be one of ${targets.map((t) => t.id).join(', ')}`);
+  }
+  return tagItem(await runWithCoreTarget(target, load), target.id) as T;
+}
+
+function report(results: OriginResult<unknown>[], count: (value: unknown) => number | undefined): FederationReport {
+  return {
+    origins: results.map((result) => {
+      if (!result.ok) {
+        return { origin: result.target.id, ok: false, error: describeError(result.error) };
+      }
+      const items = count(result.value);
+      return { origin: result.target.id, ok: true, ...(items !== undefined ? { count: items } : {}) };
+    }),
+  };
+}
+
+/**
+ * Sends a list-returning Core call to every federated Core and concatenates the tagged items, ordered by `order`
+ * when given. Used for tools whose Core endpoints return plain arrays (metrics, teams, plans).
+ */
+export async function federatedList(
+  load: () => Promise<unknown>,
+  order?: ItemOrder
+): Promise<{ data: unknown; federation?: FederationReport }> {
+  const targets = getFederationTargets();
+  if (!targets) {
+    return { data: await load() };
+  }
+  const results = await fanOut(targets, () => load());
+  assertAnySucceeded(results);
+  const items = results.flatMap((result) => (result.ok && Array.isArray(result.value) ? result.value.map((item) => tagItem(item, result.target.id)) : []));
+  return {
+    data: order ? items.sort(order) : items,
+    federation: report(results, (value) => (Array.isArray(value) ? value.length : undefined)),
+  };
+}
+
+// A federated cursor holds one per-Core cursor; null marks a Core with nothing left (or that failed).
+type FederatedCursor = { v: 1; f: Record<string, string | null> };
+
+function encodeFederatedCursor(state: FederatedCursor): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+function decodeFederatedCursor(cursor: string, targets: CoreTarget[]): FederatedCursor {
+  let state: unknown;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ToolInputError('cursor is not a valid pagination cursor; pass nextCursor from a previous result unchanged');
+  }
+  const f = (state as FederatedCursor | null)?.f;
+  if ((state as FederatedCursor | null)?.v !== 1 || f === null || typeof f !== 'object') {
+    throw new ToolInputError('cursor is not a valid pagination cursor; pass nextCursor from a previous result unchanged');
+  }
+  if (targets.some((target) => !(target.id in f))) {
+    throw new ToolInputError('cursor was issued for a different set of federated Cores; drop the cursor to start over');
+  }
+  return state as FederatedCursor;
+}
+
+/**
+ * Federated variant of paginateQuery: each page asks every Core with remaining results for up to `limit` items,
+ * then merges them in `spec.order`. The next cursor carries every Core's own cursor, so a page may hold up to
+ * `limit` items per Core. A Core that fails is reported and skipped for the rest of the walk.
+ */
+export async function federatedPaginate(
+  request: (body: Record<string, unknown>) => Promise<unknown>,
+  spec: PageSpec,
+  input: PaginatedInput
+): Promise<{ data: Record<string, unknown>; federation?: FederationReport }> {
+  const targets = getFederationTargets();
+  if (!targets) {
+    return { data: await paginateQuery(request, spec, input) };
+  }
+
+  const { cursor, ...query } = input;
+  const positions = cursor ? decodeFederatedCursor(cursor, targets).f : undefined;
+  const active = targets.filter((target) => positions === undefined || positions[target.id] !== null);
+  const results = await fanOut(active, (target) => paginateQuery(request, spec, { ...query, cursor: positions?.[target.id] ?? undefined }));
+  assertAnySucceeded(results);
+
+  const next: Record<string, string | null> = Object.fromEntries(targets.map((target) => [target.id, null]));
+  let extras: Record<string, unknown> = {};
+  const items: unknown[] = [];
+  for (const result of results) {
+    if (!result.ok) {
+      continue;
+    }
+    const { [spec.key]: list, nextCursor, hasMore: _hasMore, ...rest } = result.value;
+    extras = { ...extras, ...rest };
+    items.push(...(Array.isArray(list) ? list.map((item) => tagItem(item, result.target.id)) : []));
+    next[result.target.id] = typeof nextCursor === 'string' ? nextCursor : null;
+  }
+
+  const hasMore = Object.values(next).some((value) => value !== null);
+  return {
+    data: {
+      ...extras,
+      [spec.key]: items.sort(spec.order),
+      hasMore,
+      ...(hasMore ? { nextCursor: encodeFederatedCursor({ v: 1, f: next }) } : {}),
+    },
+    federation: report(results, (value) => {
+      const list = (value as Record<string, unknown>)[spec.key];
+      return Array.isArray(list) ? list.length : undefined;
+    }),
+  };
+}
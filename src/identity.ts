@@ -0,0 +1,125 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import path from 'node:path';
+import { getActiveConfig, getActiveCore, getCoreTarget } from './config';
+import { logger } from './logger';
+
+export type CoreAuthMode = 'static' | 'passthrough';
+
+export type CoreCredentials = {
+  token: string;
+};
+
+export type TokenExchangeContext = {
+  header: string;
+  sessionId: string | undefined;
+};
+
+// Maps the caller's inbound credential onto the token Core should see (e.g. an OAuth token exchange).
+export type TokenExchange = (inboundToken: string, context: TokenExchangeContext) => Promise<string> | string;
+
+const coreCredentials = new AsyncLocalStorage<CoreCredentials>();
+
+let tokenExchange: TokenExchange | undefined;
+let tokenExchangeLoaded = false;
+
+export function getCoreAuthMode(): CoreAuthMode {
+  const mode = process.env.OPSORCH_CORE_AUTH_MODE?.toLowerCase() || getActiveCore()?.auth?.mode;
+  return mode === 'passthrough' ? 'passthrough' : 'static';
+}
+
+export function getPassthroughHeader(): string {
+  return (process.env.OPSORCH_CORE_AUTH_HEADER || getActiveCore()?.auth?.header || 'authorization').toLowerCase();
+}
+
+function allowDemoToken(): boolean {
+  const value = process.env.OPSORCH_ALLOW_DEMO_TOKEN;
+  return value ? value === '1' || value === 'true' : getActiveCore()?.auth?.allowDemoToken === true;
+}
+
+// A federation target's own token beats OPSORCH_CORE_TOKEN, which can only describe a single Core.
+function getStaticCoreToken(): string | undefined {
+  return getCoreTarget()?.core.token || process.env.OPSORCH_CORE_TOKEN || getActiveCore()?.token;
+}
+
+// A forwarded credential is meant for the selected profile's Core; other federated Cores get their own profile token.
+function getForwardedToken(): string | undefined {
+  const target = getCoreTarget();
+  return target && target.id !== getActiveConfig()?.profile ? undefined : coreCredentials.getStore()?.token;
+}
+
+// Forwarded credentials win; otherwise the process-wide token (used by stdio and static mode).
+export function getCoreToken(): string | undefined {
+  return getForwardedToken() ?? (getStaticCoreToken() || (allowDemoToken() ? 'demo' : undefined));
+}
+
+// The forwarded credentials of the current request, for work that outlives it (e.g. subscription polling).
+export function getCoreCredentials(): CoreCredentials | undefined {
+  return coreCredentials.getStore();
+}
+
+export function runWithCoreCredentials<T>(credentials: CoreCredentials | undefined, fn: () => T): T {
+  return credentials ? coreCredentials.run(credentials, fn) : fn();
+}
+
+export function extractInboundToken(value: string | undefined, header: string): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (header !== 'authorization') {
+    return trimmed;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(trimmed);
+  return match?.[1]?.trim() || undefined;
+}
+
+export function setTokenExchange(exchange: TokenExchange | undefined): void {
+  tokenExchange = exchange;
+  tokenExchangeLoaded = true;
+}
+
+// OPSORCH_CORE_TOKEN_EXCHANGE_MODULE points at a CommonJS module exporting `exchangeToken` (or a default function).
+function loadTokenExchange(): TokenExchange | undefined {
+  if (tokenExchangeLoaded) {
+    return tokenExchange;
+  }
+  tokenExchangeLoaded = true;
+  const modulePath = process.env.OPSORCH_CORE_TOKEN_EXCHANGE_MODULE || getActiveCore()?.auth?.tokenExchangeModule;
+  if (!modulePath) {
+    return undefined;
+  }
+  const loaded = require(path.resolve(modulePath)) as { exchangeToken?: unknown; default?: unknown };
+  const candidate = typeof loaded === 'function' ? loaded : loaded.exchangeToken ?? loaded.default;
+  if (typeof candidate !== 'function') {
+    throw new Error(`OPSORCH_CORE_TOKEN_EXCHANGE_MODULE ${modulePath} does not export an exchangeToken function`);
+  }
+  tokenExchange = candidate as TokenExchange;
+  logger.info('Loaded OpsOrch Core token exchange hook', { modulePath });
+  return tokenExchange;
+}
+
+export async function resolveForwardedCredentials(inboundToken: string, context: TokenExchangeContext): Promise<CoreCredentials> {
+  const exchange = loadTokenExchange();
+  if (!exchange) {
+    return { token: inboundToken };
+  }
+  const token = await exchange(inboundToken, context);
+  if (!token) {
+    throw new Error('Token exchange returned no token');
+  }
+  return { token };
+}
+
+// Fails fast instead of silently talking to Core with a shared placeholder identity.
+export function assertCoreAuthConfig(): void {
+  const mode = getCoreAuthMode();
+  loadTokenExchange();
+  if (mode === 'static' && !getStaticCoreToken() && !allowDemoToken()) {
+    throw new Error(
+      'OPSORCH_CORE_TOKEN is not set. Set it (or a profile token in the config file), use OPSORCH_CORE_AUTH_MODE=passthrough to forward caller tokens, or set OPSORCH_ALLOW_DEMO_TOKEN=1 for local demos.'
+    );
+  }
+  if (mode === 'passthrough' && !getStaticCoreToken()) {
+    logger.warn('Core auth pass-through enabled without OPSORCH_CORE_TOKEN; stdio tool calls will reach Core unauthenticated');
+  }
+}
@@ -1,24 +1,81 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CompleteRequestSchema,
+  ErrorCode,
+  McpError,
+  PromptReferenceSchema,
+  ResourceTemplateReferenceSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ListResourcesResult,
+  type ServerNotification,
+  type ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import express from 'express';
 import { randomUUID } from 'node:crypto';
-import { logger } from './logger';
+import { ResponseCache, getCacheMaxEntries, getCacheTtlMs, type CacheCapability } from './cache';
+import { canonicalJson, fingerprint } from './canonicalize';
+import { matchCompletions } from './completion';
+import { rankDeployments } from './correlation';
+import { configureFromCli, getActiveConfig, getActiveCore, getCoreTarget } from './config';
+import { AuthError, AuthUnavailableError, createHttpAuthenticator, type Principal } from './auth';
+import { CoreError, ToolInputError, asToolError, kindForStatus } from './errors';
+import { federatedList, federatedPaginate, originOf, routeById, routeToOrigin, stripOrigin, tagItem, type FederationReport } from './federation';
+import {
+  assertCoreAuthConfig,
+  extractInboundToken,
+  getCoreAuthMode,
+  getCoreCredentials,
+  getCoreToken,
+  getPassthroughHeader,
+  resolveForwardedCredentials,
+  runWithCoreCredentials,
+  type CoreCredentials,
+} from './identity';
+import { logger, setLogLevel } from './logger';
+import { clusterLogs } from './logs';
+import { LOG_QUERY_HELP, parseLogQuery } from './logquery';
+import { summarizeSeries, type SeriesSummary } from './metrics';
+import {
+  describeCaller,
+  idempotencyScope,
+  idempotentResults,
+  isWriteEnabled,
+  previewMutation,
+  type IdempotencyScope,
+  type MutationPreview,
+  type PreviewRequest,
+} from './mutations';
+import {
+  draftPostmortemPrompt,
+  draftStatusUpdatePrompt,
+  handoffSummaryPrompt,
+  triageIncidentPrompt,
+  type PromptContext,
+} from './prompts';
+import { getCallerSignal, reportProgress, runWithToolCall, type ProgressSender } from './progress';
+import { actionableSteps, analyzePlan, assertStepTransition, blockedSteps, mergeRunSteps, type RunStep } from './orchestration';
+import { byField, byNewest, collectWindow, paginateQuery, type WindowedItems } from './pagination';
+import { computeBackoffDelay, getRetryPolicy, isIdempotentRequest, isRetryableStatus, parseRetryAfter, sleep } from './retry';
+import { SessionRegistry, getSessionLimits, type HttpSession } from './sessions';
+import { SubscriptionPoller, getSubscriptionLimits, type ResourceSnapshot } from './subscriptions';
+import { TIME_EXPRESSION_HELP, resolveTimeRange, type ResolvedTimeRange, type TimeRangeInput } from './timerange';
+import { validateResponse } from './validation';
 
 const pkgVersion = '1.0.0';
 
 function getCoreURL(): string {
-  return process.env.OPSORCH_CORE_URL || 'http://localhost:8080';
-}
-
-function getCoreToken(): string {
-  // Default demo token so Core enforces bearer auth even when env is unset.
-  return process.env.OPSORCH_CORE_TOKEN || 'demo';
+  // Inside a federated fan-out the target's URL wins; OPSORCH_CORE_URL only describes a single Core.
+  return getCoreTarget()?.core.url || process.env.OPSORCH_CORE_URL || getActiveCore()?.url || 'http://localhost:8080';
 }
 
 function getCoreTimeoutMs(): number {
-  return Number.parseInt(process.env.OPSORCH_CORE_TIMEOUT_MS || '15000', 10);
+  return Number.parseInt(process.env.OPSORCH_CORE_TIMEOUT_MS || String(getActiveCore()?.timeoutMs ?? 15000), 10);
 }
 
 const queryScopeSchema = z.object({
@@ -33,6 +90,8 @@ const incidentQuerySchema = z.object({
   severities: z.array(z.string()).optional(),
   scope: queryScopeSchema.optional(),
   limit: z.number().int().positive().optional(),
+  cursor: z.string().optional(),
+  fetchAll: z.boolean().optional(),
   metadata: z.record(z.any()).optional(),
 });
 
@@ -50,6 +109,12 @@ const incidentSchema = z.object({
   metadata: z.record(z.any()).optional(),
 });
 
+const incidentPageSchema = z.object({
+  incidents: z.array(incidentSchema),
+  nextCursor: z.string().optional(),
+  hasMore: z.boolean(),
+});
+
 const timelineEntrySchema = z.object({
   id: z.string(),
   incidentId: z.string(),
@@ -60,6 +125,54 @@ const timelineEntrySchema = z.object({
   metadata: z.record(z.any()).optional(),
 });
 
+const createIncidentSchema = z.object({
+  title: z.string().min(1),
+  severity: z.string(),
+  status: z.string().optional(),
+  description: z.string().optional(),
+  service: z.string().optional(),
+  fields: z.record(z.any()).optional(),
+  metadata: z.record(z.any()).optional(),
+  origin: z.string().optional(),
+  dryRun: z.boolean().optional(),
+});
+
+const updateIncidentSchema = z.object({
+  id: z.string(),
+  title: z.string().min(1).optional(),
+  status: z.string().optional(),
+  severity: z.string().optional(),
+  description: z.string().optional(),
+  service: z.string().optional(),
+  fields: z.record(z.any()).optional(),
+  metadata: z.record(z.any()).optional(),
+  dryRun: z.boolean().optional(),
+});
+
+const appendIncidentTimelineSchema = z.object({
+  id: z.string(),
+  kind: z.string(),
+  body: z.string().min(1),
+  at: z.string().datetime().optional(),
+  actor: z.record(z.any()).optional(),
+  metadata: z.record(z.any()).optional(),
+  dryRun: z.boolean().optional(),
+});
+
+const previewRequestSchema = z.object({
+  method: z.enum(['POST', 'PATCH']),
+  url: z.string(),
+  headers: z.record(z.string()),
+  body: z.record(z.any()).optional(),
+});
+
+const mutationPreviewSchema = z.object({
+  dryRun: z.literal(true),
+  request: previewRequestSchema,
+  followUps: z.array(previewRequestSchema).optional(),
+  metadata: z.record(z.any()).optional(),
+});
+
 const logFilterSchema = z.object({
   field: z.string(),
   operator: z.string(),
@@ -72,12 +185,19 @@ const logExpressionSchema = z.object({
   severityIn: z.array(z.string()).optional(),
 });
 
+// Absolute ISO-8601 timestamps or relative expressions (now-30m, last 2h, incident:INC-123-15m); see resolveTimeRange.
+const timeExpressionSchema = z.string().min(1);
+
 const logQuerySchema = z.object({
+  // Compact alternative to expression, compiled by parseLogQuery.
+  q: z.string().optional(),
   expression: logExpressionSchema.optional(),
-  start: z.string().datetime(),
-  end: z.string().datetime(),
+  start: timeExpressionSchema,
+  end: timeExpressionSchema.optional(),
   scope: queryScopeSchema.optional(),
   limit: z.number().int().positive().optional(),
+  cursor: z.string().optional(),
+  fetchAll: z.boolean().optional(),
   metadata: z.record(z.any()).optional(),
   providers: z.array(z.string()).optional(),
 });
@@ -95,6 +215,32 @@ const logEntrySchema = z.object({
 const logEntriesSchema = z.object({
   entries: z.array(logEntrySchema),
   url: z.string().optional(),
+  nextCursor: z.string().optional(),
+  hasMore: z.boolean(),
+});
+
+const clusterLogsSchema = logQuerySchema.extend({
+  order: z.enum(['volume', 'rarity']).optional(),
+  maxClusters: z.number().int().positive().max(200).optional(),
+  samplesPerCluster: z.number().int().nonnegative().max(10).optional(),
+});
+
+const logClusterSchema = z.object({
+  template: z.string(),
+  count: z.number().int().positive(),
+  severities: z.record(z.number().int()),
+  firstSeen: z.string().datetime(),
+  lastSeen: z.string().datetime(),
+  samples: z.array(z.string()),
+});
+
+const logClustersSchema = z.object({
+  clusters: z.array(logClusterSchema),
+  totalEntries: z.number().int().nonnegative(),
+  totalClusters: z.number().int().nonnegative(),
+  url: z.string().optional(),
+  nextCursor: z.string().optional(),
+  hasMore: z.boolean(),
 });
 
 const metricFilterSchema = z.object({
@@ -112,9 +258,10 @@ const metricExpressionSchema = z.object({
 
 const metricQuerySchema = z.object({
   expression: metricExpressionSchema.optional(),
-  start: z.string().datetime(),
-  end: z.string().datetime(),
-  step: z.number().int().positive(),
+  start: timeExpressionSchema,
+  end: timeExpressionSchema.optional(),
+  // Seconds, or a duration string such as "1m".
+  step: z.union([z.number().int().positive(), z.string()]),
   scope: queryScopeSchema.optional(),
   metadata: z.record(z.any()).optional(),
 });
@@ -133,6 +280,31 @@ const metricSeriesSchema = z.object({
   metadata: z.record(z.any()).optional(),
 });
 
+const summarizeMetricsSchema = metricQuerySchema.extend({
+  sparklineWidth: z.number().int().min(8).max(120).optional(),
+});
+
+const metricValueSchema = z.object({ timestamp: z.string().datetime(), value: z.number() });
+
+const seriesSummarySchema = z.object({
+  count: z.number().int().nonnegative(),
+  start: z.string().datetime().optional(),
+  end: z.string().datetime().optional(),
+  min: metricValueSchema.optional(),
+  max: metricValueSchema.optional(),
+  mean: z.number().optional(),
+  p50: z.number().optional(),
+  p95: z.number().optional(),
+  p99: z.number().optional(),
+  last: metricValueSchema.optional(),
+  trend: z.object({ slopePerHour: z.number(), direction: z.enum(['rising', 'falling', 'flat']) }).optional(),
+  spikes: z.array(metricValueSchema.extend({ zScore: z.number() })).optional(),
+  changePoints: z.array(z.object({ timestamp: z.string().datetime(), before: z.number(), after: z.number() })).optional(),
+  sparkline: z.string().optional(),
+});
+
+const metricSummarySchema = metricSeriesSchema.omit({ points: true }).extend({ summary: seriesSummarySchema });
+
 const metricDescriptorSchema = z.object({
   name: z.string(),
   type: z.string(),
@@ -143,8 +315,11 @@ const metricDescriptorSchema = z.object({
   metadata: z.record(z.any()).optional(),
 });
 
+const metricCatalogSchema = z.object({ metrics: z.array(metricDescriptorSchema) });
+
 const describeMetricsInputSchema = z.object({
   scope: queryScopeSchema.optional(),
+  noCache: z.boolean().optional(),
 });
 
 const alertQuerySchema = z.object({
@@ -153,6 +328,8 @@ const alertQuerySchema = z.object({
   severities: z.array(z.string()).optional(),
   scope: queryScopeSchema.optional(),
   limit: z.number().int().positive().optional(),
+  cursor: z.string().optional(),
+  fetchAll: z.boolean().optional(),
   metadata: z.record(z.any()).optional(),
 });
 
@@ -170,13 +347,22 @@ const alertSchema = z.object({
   metadata: z.record(z.any()).optional(),
 });
 
+const alertPageSchema = z.object({
+  alerts: z.array(alertSchema),
+  nextCursor: z.string().optional(),
+  hasMore: z.boolean(),
+});
+
 const serviceQuerySchema = z.object({
   ids: z.array(z.string()).optional(),
   name: z.string().optional(),
   tags: z.record(z.string()).optional(),
   limit: z.number().int().positive().optional(),
+  cursor: z.string().optional(),
+  fetchAll: z.boolean().optional(),
   scope: queryScopeSchema.optional(),
   metadata: z.record(z.any()).optional(),
+  noCache: z.boolean().optional(),
 });
 
 const serviceSchema = z.object({
@@ -187,6 +373,12 @@ const serviceSchema = z.object({
   metadata: z.record(z.any()).optional(),
 });
 
+const servicePageSchema = z.object({
+  services: z.array(serviceSchema),
+  nextCursor: z.string().optional(),
+  hasMore: z.boolean(),
+});
+
 const ticketQuerySchema = z.object({
   query: z.string().optional(),
   statuses: z.array(z.string()).optional(),
@@ -194,6 +386,8 @@ const ticketQuerySchema = z.object({
   reporter: z.string().optional(),
   scope: queryScopeSchema.optional(),
   limit: z.number().int().positive().optional(),
+  cursor: z.string().optional(),
+  fetchAll: z.boolean().optional(),
   metadata: z.record(z.any()).optional(),
 });
 
@@ -212,12 +406,62 @@ const ticketSchema = z.object({
   metadata: z.record(z.any()).optional(),
 });
 
+const ticketPageSchema = z.object({
+  tickets: z.array(ticketSchema),
+  nextCursor: z.string().optional(),
+  hasMore: z.boolean(),
+});
+
+const createTicketSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().optional(),
+  status: z.string().optional(),
+  assignees: z.array(z.string()).optional(),
+  reporter: z.string().optional(),
+  fields: z.record(z.any()).optional(),
+  metadata: z.record(z.any()).optional(),
+  incidentId: z.string().optional(),
+  idempotencyKey: z.string().min(1).optional(),
+  origin: z.string().optional(),
+  dryRun: z.boolean().optional(),
+});
+
+const updateTicketSchema = z.object({
+  id: z.string(),
+  title: z.string().min(1).optional(),
+  description: z.string().optional(),
+  status: z.string().optional(),
+  assignees: z.array(z.string()).optional(),
+  fields: z.record(z.any()).optional(),
+  metadata: z.record(z.any()).optional(),
+  incidentId: z.string().optional(),
+  dryRun: z.boolean().optional(),
+});
+
+const commentTicketSchema = z.object({
+  id: z.string(),
+  body: z.string().min(1),
+  idempotencyKey: z.string().min(1).optional(),
+  dryRun: z.boolean().optional(),
+});
+
+const ticketCommentSchema = z.object({
+  id: z.string(),
+  ticketId: z.string(),
+  body: z.string(),
+  author: z.string().optional(),
+  createdAt: z.string().datetime(),
+  metadata: z.record(z.any()).optional(),
+});
+
 const deploymentQuerySchema = z.object({
   query: z.string().optional(),
   statuses: z.array(z.string()).optional(),
   versions: z.array(z.string()).optional(),
   scope: queryScopeSchema.optional(),
   limit: z.number().int().positive().optional(),
+  cursor: z.string().optional(),
+  fetchAll: z.boolean().optional(),
   metadata: z.record(z.any()).optional(),
 });
 
@@ -235,11 +479,18 @@ const deploymentSchema = z.object({
   metadata: z.record(z.any()).optional(),
 });
 
+const deploymentPageSchema = z.object({
+  deployments: z.array(deploymentSchema),
+  nextCursor: z.string().optional(),
+  hasMore: z.boolean(),
+});
+
 const teamQuerySchema = z.object({
   name: z.string().optional(),
   tags: z.record(z.string()).optional(),
   scope: queryScopeSchema.optional(),
   metadata: z.record(z.any()).optional(),
+  noCache: z.boolean().optional(),
 });
 
 const teamSchema = z.object({
@@ -290,6 +541,138 @@ const orchestrationPlanSchema = z.object({
   metadata: z.record(z.any()).optional(),
 });
 
+const planAnalysisSchema = z.object({
+  planId: z.string().optional(),
+  valid: z.boolean(),
+  issues: z.array(
+    z.object({
+      type: z.enum(['duplicate_step', 'missing_reference', 'cycle', 'unreachable']),
+      stepId: z.string(),
+      message: z.string(),
+      steps: z.array(z.string()).optional(),
+    })
+  ),
+  stages: z.array(z.array(z.string())),
+  order: z.array(z.string()),
+  mermaid: z.string(),
+  outline: z.string(),
+});
+
+const analyzeOrchestrationPlanSchema = z.object({
+  id: z.string().optional(),
+  plan: orchestrationPlanSchema.optional(),
+});
+
+const orchestrationRunStepSchema = z.object({
+  stepId: z.string(),
+  status: z.string(),
+  note: z.string().optional(),
+  actor: z.string().optional(),
+  startedAt: z.string().datetime().optional(),
+  completedAt: z.string().datetime().optional(),
+  metadata: z.record(z.any()).optional(),
+});
+
+const orchestrationRunSchema = z.object({
+  id: z.string(),
+  planId: z.string(),
+  incidentId: z.string().optional(),
+  status: z.string(),
+  steps: z.array(orchestrationRunStepSchema),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  metadata: z.record(z.any()).optional(),
+});
+
+// A run as returned to agents: every plan step in order plus what can be worked on right now.
+const orchestrationRunViewSchema = orchestrationRunSchema.extend({
+  actionableSteps: z.array(z.string()),
+  blockedSteps: z.array(z.object({ stepId: z.string(), waitingOn: z.array(z.string()) })),
+});
+
+const orchestrationRunQuerySchema = z.object({
+  planId: z.string().optional(),
+  incidentId: z.string().optional(),
+  statuses: z.array(z.string()).optional(),
+  limit: z.number().int().positive().optional(),
+});
+
+const startOrchestrationRunSchema = z.object({
+  planId: z.string(),
+  incidentId: z.string(),
+  dryRun: z.boolean().optional(),
+});
+
+const updateOrchestrationRunStepSchema = z.object({
+  runId: z.string(),
+  stepId: z.string(),
+  status: z.enum(['started', 'completed', 'skipped']),
+  note: z.string().optional(),
+  dryRun: z.boolean().optional(),
+});
+
+const investigateIncidentSchema = z.object({
+  id: z.string(),
+  lookbackMinutes: z.number().int().positive().max(7 * 24 * 60).optional(),
+  lookaheadMinutes: z.number().int().nonnegative().max(24 * 60).optional(),
+  metricNames: z.array(z.string()).max(10).optional(),
+  limit: z.number().int().positive().max(200).optional(),
+});
+
+function evidenceSectionSchema<T extends z.ZodTypeAny>(data: T) {
+  return z.object({
+    ok: z.boolean(),
+    data: data.optional(),
+    hasMore: z.boolean().optional(),
+    error: z.record(z.any()).optional(),
+  });
+}
+
+const investigationSchema = z.object({
+  incident: incidentSchema,
+  service: z.string().optional(),
+  window: z.object({ start: z.string().datetime(), end: z.string().datetime() }),
+  timeline: evidenceSectionSchema(z.array(timelineEntrySchema)),
+  alerts: evidenceSectionSchema(z.array(alertSchema)),
+  deployments: evidenceSectionSchema(z.array(deploymentSchema)),
+  logs: evidenceSectionSchema(z.array(logEntrySchema)),
+  metrics: evidenceSectionSchema(z.array(metricSeriesSchema)),
+  metadata: z.record(z.any()).optional(),
+});
+
+const correlateDeploymentsSchema = z.object({
+  incidentId: z.string().optional(),
+  service: z.string().optional(),
+  at: z.string().datetime().optional(),
+  environment: z.string().optional(),
+  dependencies: z.array(z.string()).max(20).optional(),
+  lookbackHours: z.number().positive().max(7 * 24).optional(),
+  limit: z.number().int().positive().max(200).optional(),
+  origin: z.string().optional(),
+});
+
+const deploymentCorrelationSchema = z.object({
+  incidentId: z.string().optional(),
+  service: z.string(),
+  environment: z.string().optional(),
+  at: z.string().datetime(),
+  window: z.object({ start: z.string().datetime(), end: z.string().datetime() }),
+  dependencies: z.array(z.string()),
+  deployments: z.array(
+    z.object({
+      deployment: deploymentSchema,
+      relation: z.enum(['service', 'dependency']),
+      score: z.number(),
+      reasons: z.array(z.string()),
+    })
+  ),
+  // Dependencies whose deployments could not be loaded; the ranking covers the rest.
+  errors: z.array(z.object({ service: z.string(), error: z.record(z.any()) })).optional(),
+  // Services whose look-back window may hold more deployments than `limit` or the scan cap let through.
+  truncated: z.array(z.string()).optional(),
+  metadata: z.record(z.any()).optional(),
+});
+
 const capabilitySchema = z.enum(['incident', 'alert', 'log', 'metric', 'ticket', 'service', 'deployment', 'team', 'orchestration']);
 
 const providersResponseSchema = z.object({
@@ -304,78 +687,247 @@ export function buildURL(pathname: string): string {
   return base.toString();
 }
 
-export async function coreRequest<T>(
+type CoreAttemptResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: CoreError };
+
+function parseErrorBody(text: string): Record<string, unknown> | undefined {
+  try {
+    const data = text ? (JSON.parse(text) as unknown) : undefined;
+    return typeof data === 'object' && data !== null && !Array.isArray(data) ? (data as Record<string, unknown>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function stringField(data: Record<string, unknown> | undefined, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = data?.[key];
+    if (typeof value === 'string' && value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function cancelledError(method: string, pathname: string): CoreError {
+  return new CoreError('OpsOrch Core request cancelled by the MCP client', { kind: 'cancelled', method, path: pathname, retryable: false });
+}
+
+async function attemptCoreRequest<T>(
   pathname: string,
   method: 'GET' | 'POST' | 'PATCH',
-  body?: Record<string, unknown>
-): Promise<T> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), getCoreTimeoutMs());
+  body: Record<string, unknown> | undefined,
+  options: CoreRequestOptions,
+  signal: AbortSignal,
+  attempt: number
+): Promise<CoreAttemptResult<T>> {
   const startedAt = Date.now();
-  let failureLogged = false;
-
-  logger.debug('Calling OpsOrch Core', {
-    method,
-    pathname,
-    body,
-  });
+  const token = getCoreToken();
 
+  let res: Response | undefined;
+  let text: string;
   try {
-    const res = await fetch(buildURL(pathname), {
+    res = await fetch(buildURL(pathname), {
       method,
       headers: {
         'Content-Type': 'application/json',
-        ...(getCoreToken() ? { Authorization: `Bearer ${getCoreToken()}` } : {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {}),
       },
       body: body ? JSON.stringify(body) : null,
-      signal: controller.signal,
+      signal,
     });
-
-    const text = await res.text();
-    const data = text ? (JSON.parse(text) as unknown) : undefined;
+    // The body streams in after the headers, so the deadline, a cancellation, or a dropped connection can still hit here.
+    text = await res.text();
+  } catch (error) {
     const durationMs = Date.now() - startedAt;
-
-    if (!res.ok) {
-      const message = typeof data === 'object' && data !== null && 'message' in data ? String((data as any).message) : res.statusText;
-      failureLogged = true;
-      logger.error('OpsOrch Core call failed', {
-        method,
-        pathname,
-        status: res.status,
-        durationMs,
-        error: message,
-      });
-      throw new Error(`OpsOrch Core ${res.status}: ${message}`);
+    logger.error('OpsOrch Core request encountered an error', {
+      method,
+      pathname,
+      attempt,
+      durationMs,
+      error,
+    });
+    // An aborted signal means the client cancelled or the overall deadline elapsed; anything else is a transport failure worth retrying.
+    if (getCallerSignal()?.aborted) {
+      return { ok: false, error: cancelledError(method, pathname) };
     }
+    const timedOut = signal.aborted;
+    const failure = res ? `OpsOrch Core response interrupted: ${(error as Error).message}` : `OpsOrch Core unreachable: ${(error as Error).message}`;
+    return {
+      ok: false,
+      error: new CoreError(timedOut ? `OpsOrch Core request timed out after ${getCoreTimeoutMs()}ms` : failure, {
+        kind: timedOut ? 'timeout' : 'network',
+        method,
+        path: pathname,
+        retryable: !timedOut,
+      }),
+    };
+  }
+
+  const durationMs = Date.now() - startedAt;
 
-    logger.info('OpsOrch Core call succeeded', {
+  if (!res.ok) {
+    const data = parseErrorBody(text);
+    const message = data && 'message' in data ? String(data.message) : res.statusText;
+    logger.error('OpsOrch Core call failed', {
       method,
       pathname,
+      attempt,
       status: res.status,
       durationMs,
+      error: message,
     });
-    logger.debug('OpsOrch Core response payload', {
+    const retryAfterMs = res.status === 429 || res.status === 503 ? parseRetryAfter(res.headers.get('retry-after')) : undefined;
+    const code = stringField(data, 'code', 'error');
+    const requestId = res.headers.get('x-request-id') ?? stringField(data, 'requestId', 'request_id');
+    return {
+      ok: false,
+      error: new CoreError(`OpsOrch Core ${res.status}: ${message}`, {
+        kind: kindForStatus(res.status),
+        method,
+        path: pathname,
+        retryable: isRetryableStatus(res.status),
+        status: res.status,
+        ...(code !== undefined ? { code } : {}),
+        ...(requestId ? { requestId } : {}),
+        ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+      }),
+    };
+  }
+
+  let data: unknown;
+  try {
+    data = text ? (JSON.parse(text) as unknown) : undefined;
+  } catch (error) {
+    logger.error('OpsOrch Core returned a malformed response', {
       method,
       pathname,
-      response: data,
+      attempt,
+      status: res.status,
+      durationMs,
+      error,
     });
-    return data as T;
-  } catch (error) {
-    const durationMs = Date.now() - startedAt;
-    if (!failureLogged) {
-      logger.error('OpsOrch Core request encountered an error', {
+    return {
+      ok: false,
+      error: new CoreError(`OpsOrch Core returned malformed JSON: ${(error as Error).message}`, {
+        kind: 'invalid_response',
+        method,
+        path: pathname,
+        retryable: false,
+        status: res.status,
+      }),
+    };
+  }
+
+  logger.info('OpsOrch Core call succeeded', {
+    method,
+    pathname,
+    attempt,
+    status: res.status,
+    durationMs,
+  });
+  logger.debug('OpsOrch Core response payload', {
+    method,
+    pathname,
+    response: data,
+  });
+  return { ok: true, data: data as T };
+}
+
+export type CoreRequestOptions = {
+  idempotencyKey?: string | undefined;
+};
+
+export async function coreRequest<T>(
+  pathname: string,
+  method: 'GET' | 'POST' | 'PATCH',
+  body?: Record<string, unknown>,
+  options: CoreRequestOptions = {}
+): Promise<T> {
+  const timeoutMs = getCoreTimeoutMs();
+  const deadline = Date.now() + timeoutMs;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  // A client cancellation aborts the in-flight fetch and any pending retry, just like the deadline.
+  const callerSignal = getCallerSignal();
+  const cancel = () => controller.abort();
+  if (callerSignal?.aborted) {
+    cancel();
+  }
+  callerSignal?.addEventListener('abort', cancel, { once: true });
+  const policy = getRetryPolicy();
+  const maxAttempts = isIdempotentRequest(method, pathname, options.idempotencyKey !== undefined && policy.keyedWrites) ? policy.maxRetries + 1 : 1;
+
+  logger.debug('Calling OpsOrch Core', {
+    method,
+    pathname,
+    body,
+  });
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      const result = await attemptCoreRequest<T>(pathname, method, body, options, controller.signal, attempt);
+      if (result.ok) {
+        return result.data;
+      }
+      if (!result.error.retryable || attempt >= maxAttempts) {
+        throw result.error;
+      }
+
+      const delayMs = result.error.retryAfterMs ?? computeBackoffDelay(attempt, policy);
+      const remainingMs = deadline - Date.now();
+      if (delayMs >= remainingMs) {
+        logger.warn('OpsOrch Core retry skipped; deadline would be exceeded', {
+          method,
+          pathname,
+          attempt,
+          delayMs,
+          remainingMs,
+        });
+        throw result.error;
+      }
+
+      logger.warn('Retrying OpsOrch Core call', {
         method,
         pathname,
-        durationMs,
-        error,
+        attempt,
+        nextAttempt: attempt + 1,
+        maxAttempts,
+        delayMs,
       });
+      reportProgress(`Retrying ${method} ${pathname} in ${delayMs}ms (attempt ${attempt + 1} of ${maxAttempts}) after: ${result.error.message}`);
+      await sleep(delayMs, controller.signal);
+      if (callerSignal?.aborted) {
+        throw cancelledError(method, pathname);
+      }
     }
-    throw error;
   } finally {
     clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', cancel);
   }
 }
 
+export const responseCache = new ResponseCache(getCacheMaxEntries);
+
+// Slow-changing lookups (services, teams, metric catalogs, providers) are served from the shared TTL cache.
+// Keys are partitioned by the Core credential so forwarded callers never see each other's results.
+// `noCache` skips the cached copy but still refreshes it with the fresh response.
+// Concurrent callers share one load, so it runs detached from the first caller's cancellation and progress.
+export function cachedCoreRequest<T>(
+  capability: CacheCapability,
+  pathname: string,
+  method: 'GET' | 'POST',
+  body?: Record<string, unknown>,
+  noCache?: boolean
+): Promise<T> {
+  const key = `${fingerprint(getCoreToken() ?? '')} ${method} ${buildURL(pathname)} ${canonicalJson(body ?? null)}`;
+  return responseCache.getOrLoad(key, getCacheTtlMs(capability), () => runWithToolCall(undefined, undefined, () => coreRequest<T>(pathname, method, body)), {
+    refresh: noCache === true,
+  });
+}
+
 export function asContent(value: unknown): { content: { type: 'text'; text: string }[]; structuredContent: any } {
   return {
     content: [
@@ -388,70 +940,793 @@ export function asContent(value: unknown): { content: { type: 'text'; text: stri
   };
 }
 
-function buildServer(): McpServer {
-  const server = new McpServer({
-    name: 'opsorch-mcp',
-    version: pkgVersion,
-  });
+type ToolContent = ReturnType<typeof asContent> & { _meta?: Record<string, unknown> };
 
-  // Incidents
-  server.registerTool(
-    'query-incidents',
-    {
-      title: 'Query Incidents',
-      description: 'Search incidents via POST /incidents/query using scope, status, or metadata filters when you need a targeted list to inspect.',
-      inputSchema: incidentQuerySchema,
-      outputSchema: z.array(incidentSchema),
-    },
-    async (input) => {
-      const payload = incidentQuerySchema.parse(input);
-      const data = await coreRequest('/incidents/query', 'POST', payload);
-      return asContent(data);
-    }
-  );
+// Validates Core data against the tool's output schema; lenient repairs are reported both to the model and in `_meta`.
+export function asValidatedContent(tool: string, schema: z.ZodTypeAny, value: unknown): ToolContent {
+  const { data, warnings } = validateResponse(tool, schema, value);
+  const result = asContent(data);
+  if (warnings.length === 0) {
+    return result;
+  }
+  return {
+    ...result,
+    content: [
+      ...result.content,
+      {
+        type: 'text',
+        text: `Response validation warnings (Core payload repaired to match schema):\n${warnings.map((w) => `- ${w.path}: ${w.message}`).join('\n')}`,
+      },
+    ],
+    _meta: { 'opsorch/validationWarnings': warnings },
+  };
+}
 
-  server.registerTool(
-    'get-incident',
-    {
-      title: 'Get Incident',
-      description: 'Retrieve the full incident payload with GET /incidents/{id} before updating or appending evidence.',
-      inputSchema: z.object({ id: z.string() }),
-      outputSchema: incidentSchema,
-    },
-    async ({ id }) => {
-      const data = await coreRequest(`/incidents/${encodeURIComponent(id)}`, 'GET');
-      return asContent(data);
-    }
-  );
+// Shared path for write tools: a dry run returns the request unsent, and every real call is logged with its caller.
+async function mutateCore(
+  tool: string,
+  method: 'POST' | 'PATCH',
+  pathname: string,
+  body: Record<string, unknown>,
+  options: { dryRun?: boolean | undefined; authInfo: AuthInfo | undefined; idempotencyKey?: string }
+): Promise<unknown> {
+  const caller = describeCaller(options.authInfo);
+  const context = { tool, method, pathname, caller: caller.subject, callerType: caller.type };
+  if (options.dryRun) {
+    logger.info('OpsOrch Core mutation dry run', context);
+    return previewMutation(method, buildURL(pathname), body, getCoreToken() !== undefined, options.idempotencyKey);
+  }
+  logger.info('OpsOrch Core mutation requested', { ...context, ...(options.idempotencyKey ? { idempotencyKey: options.idempotencyKey } : {}) });
+  return coreRequest(pathname, method, body, { idempotencyKey: options.idempotencyKey });
+}
 
-  server.registerTool(
-    'get-incident-timeline',
-    {
-      title: 'Get Incident Timeline',
-      description: 'Read the chronological audit trail for an incident through GET /incidents/{id}/timeline.',
-      inputSchema: z.object({ id: z.string() }),
-      outputSchema: z.array(timelineEntrySchema),
-    },
-    async ({ id }) => {
-      const data = await coreRequest(`/incidents/${encodeURIComponent(id)}/timeline`, 'GET');
-      return asContent(data);
-    }
-  );
+type IncidentLink = {
+  incidentId: string;
+  ok: boolean;
+  error?: Record<string, unknown>;
+};
+
+function ticketTimelineEntry(ticket: Record<string, unknown>, note: string): Record<string, unknown> {
+  return {
+    kind: 'ticket',
+    body: note,
+    metadata: {
+      ticketId: ticket.id,
+      ...(ticket.key !== undefined ? { ticketKey: ticket.key } : {}),
+      ...(ticket.url !== undefined ? { ticketUrl: ticket.url } : {}),
+    },
+  };
+}
+
+/**
+ * The ticket change has already happened by now, so a failed timeline append is reported next to the result
+ * instead of failing the call (which would invite the agent to repeat the ticket change).
+ *
+ * With an idempotency `scope`, only a successful append is remembered: a replay skips it, while a replay of a
+ * call whose append failed tries it again.
+ */
+async function linkTicketToIncident(
+  incidentId: string,
+  ticket: Record<string, unknown>,
+  note: string,
+  authInfo: AuthInfo | undefined,
+  scope?: IdempotencyScope
+): Promise<IncidentLink> {
+  const append = async () => {
+    await routeById(incidentId, (localId) =>
+      mutateCore('link-ticket', 'POST', `/incidents/${encodeURIComponent(localId)}/timeline`, ticketTimelineEntry(ticket, note), { authInfo })
+    );
+    return true;
+  };
+  try {
+    await (scope ? idempotentResults.getOrLoad(`${scope.cacheKey} link`, scope.ttlMs, append) : append());
+    return { incidentId, ok: true };
+  } catch (error) {
+    logger.warn('Failed to record ticket on incident timeline', { incidentId, ticketId: ticket.id, error });
+    return { incidentId, ok: false, error: asToolError(error).structuredContent.error };
+  }
+}
+
+async function previewIncidentLink(incidentId: string, ticket: Record<string, unknown>, note: string, authInfo: AuthInfo | undefined): Promise<PreviewRequest> {
+  const preview = (await routeById(incidentId, (localId) =>
+    mutateCore('link-ticket', 'POST', `/incidents/${encodeURIComponent(localId)}/timeline`, ticketTimelineEntry(ticket, note), { dryRun: true, authInfo })
+  )) as MutationPreview;
+  return preview.request;
+}
+
+function withTicketContext(result: ToolContent, link: IncidentLink | undefined, replayed: boolean): ToolContent {
+  if (!link && !replayed) {
+    return result;
+  }
+  return {
+    ...result,
+    content: [
+      ...result.content,
+      ...(link && !link.ok
+        ? [{ type: 'text' as const, text: `Ticket saved, but the incident ${link.incidentId} timeline could not be updated: ${String(link.error?.message)}` }]
+        : []),
+      ...(replayed ? [{ type: 'text' as const, text: 'Idempotent replay: returned the result of an earlier identical request; nothing new was sent to Core.' }] : []),
+    ],
+    _meta: {
+      ...result._meta,
+      ...(link ? { 'opsorch/incidentLink': link } : {}),
+      ...(replayed ? { 'opsorch/idempotentReplay': true } : {}),
+    },
+  };
+}
+
+async function loadPlanSteps(tool: string, planId: string): Promise<z.infer<typeof orchestrationStepSchema>[]> {
+  const plan = await coreRequest(`/orchestration/plans/${encodeURIComponent(planId)}`, 'GET');
+  return (validateResponse(tool, orchestrationPlanSchema, plan).data as z.infer<typeof orchestrationPlanSchema>).steps;
+}
+
+function toRunView(run: Record<string, unknown>, steps: z.infer<typeof orchestrationStepSchema>[]): Record<string, unknown> {
+  const runSteps = Array.isArray(run.steps) ? (run.steps as RunStep[]) : [];
+  return {
+    ...run,
+    steps: mergeRunSteps(steps, runSteps),
+    actionableSteps: actionableSteps(steps, runSteps),
+    blockedSteps: blockedSteps(steps, runSteps),
+  };
+}
+
+type EvidenceSection = { ok: true; data: unknown; hasMore?: boolean } | { ok: false; error: Record<string, unknown> };
+
+// One failing provider should not sink the whole investigation, so each section carries its own error.
+async function evidenceSection(tool: string, schema: z.ZodTypeAny, load: () => Promise<unknown>): Promise<EvidenceSection> {
+  try {
+    return { ok: true, data: validateResponse(tool, schema, await load()).data };
+  } catch (error) {
+    logger.warn('Investigation section failed', { tool, error });
+    return { ok: false, error: asToolError(error).structuredContent.error };
+  }
+}
+
+// Sections filtered to the incident window say when the window may hold more than they returned.
+async function windowedEvidenceSection(tool: string, schema: z.ZodTypeAny, load: () => Promise<WindowedItems>): Promise<EvidenceSection> {
+  let hasMore = false;
+  const section = await evidenceSection(tool, schema, async () => {
+    const collected = await load();
+    hasMore = collected.hasMore;
+    return collected.items;
+  });
+  return section.ok && hasMore ? { ...section, hasMore } : section;
+}
+
+// routeById and routeToOrigin tag only the report they return; records nested in it need the origin prefix too.
+function tagNested<T>(item: T): T {
+  const target = getCoreTarget();
+  return target ? (tagItem(item, target.id) as T) : item;
+}
+
+function tagSection(section: EvidenceSection): EvidenceSection {
+  return section.ok && Array.isArray(section.data) ? { ...section, data: section.data.map(tagNested) } : section;
+}
+
+async function investigateIncident(localId: string, input: z.infer<typeof investigateIncidentSchema>): Promise<Record<string, unknown>> {
+  const tool = 'investigate-incident';
+  const incident = validateResponse(tool, incidentSchema, await coreRequest(`/incidents/${encodeURIComponent(localId)}`, 'GET')).data as z.infer<
+    typeof incidentSchema
+  >;
+  const createdAt = Date.parse(incident.createdAt);
+  const start = createdAt - (input.lookbackMinutes ?? 60) * 60_000;
+  // The window never ends in the future, but always reaches createdAt even for clock-skewed incidents.
+  const end = Math.max(createdAt, Math.min(Date.now(), createdAt + (input.lookaheadMinutes ?? 30) * 60_000));
+  const window = { start: new Date(start).toISOString(), end: new Date(end).toISOString() };
+  const scope = incident.service ? { service: incident.service } : undefined;
+  const limit = input.limit ?? 50;
+  const scoped = scope ? { scope } : {};
+
+  const [timeline, alerts, deployments, logs, metrics] = await Promise.all([
+    evidenceSection(tool, z.array(timelineEntrySchema), () => coreRequest(`/incidents/${encodeURIComponent(localId)}/timeline`, 'GET')),
+    // Alert and deployment queries have no time bounds, so pages are walked back to the window start.
+    windowedEvidenceSection(tool, z.array(alertSchema), () =>
+      collectWindow((body) => coreRequest('/alerts/query', 'POST', body), { key: 'alerts', order: byNewest('createdAt') }, scoped, {
+        field: 'createdAt',
+        start,
+        end,
+        limit,
+      })
+    ),
+    windowedEvidenceSection(tool, z.array(deploymentSchema), () =>
+      collectWindow((body) => coreRequest('/deployments/query', 'POST', body), { key: 'deployments', order: byNewest('startedAt') }, scoped, {
+        field: 'startedAt',
+        start,
+        end,
+        limit,
+      })
+    ),
+    // Core bounds logs by time itself, so one page holds the newest `limit` entries of the window.
+    windowedEvidenceSection(tool, z.array(logEntrySchema), async () => {
+      const page = await paginateQuery(
+        (body) => coreRequest('/logs/query', 'POST', body),
+        { key: 'entries', order: byNewest('timestamp') },
+        { ...scoped, start: window.start, end: window.end, limit }
+      );
+      return { items: page.entries as unknown[], hasMore: page.hasMore === true };
+    }),
+    evidenceSection(tool, z.array(metricSeriesSchema), async () => {
+      const base = { ...scoped, start: window.start, end: window.end, step: 60 };
+      if (!input.metricNames || input.metricNames.length === 0) {
+        return coreRequest('/metrics/query', 'POST', base);
+      }
+      const series = await Promise.all(
+        input.metricNames.map((metricName) => coreRequest<unknown[]>('/metrics/query', 'POST', { ...base, expression: { metricName } }))
+      );
+      return series.flatMap((result) => (Array.isArray(result) ? result : []));
+    }),
+  ]);
+
+  return {
+    incident: tagNested(incident),
+    ...(incident.service ? { service: incident.service } : {}),
+    window,
+    timeline: tagSection(timeline),
+    alerts: tagSection(alerts),
+    deployments: tagSection(deployments),
+    logs,
+    metrics,
+  };
+}
+
+function summarizeInvestigation(report: Record<string, unknown>): string {
+  const sections = ['timeline', 'alerts', 'deployments', 'logs', 'metrics'] as const;
+  const window = report.window as { start: string; end: string };
+  const lines = sections.map((name) => {
+    const section = report[name] as EvidenceSection;
+    return section.ok
+      ? `- ${name}: ${Array.isArray(section.data) ? section.data.length : 0} item(s)${section.hasMore ? ' (truncated; the window may hold more)' : ''}`
+      : `- ${name}: unavailable (${String(section.error.message)})`;
+  });
+  return `Evidence window ${window.start} to ${window.end}${report.service ? ` for service ${String(report.service)}` : ''}:\n${lines.join('\n')}`;
+}
+
+function stringList(value: unknown): string[] | undefined {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string') ? value : undefined;
+}
+
+// Service records are only consulted for defaults, so a failed lookup just means no dependencies or environment.
+async function lookupService(tool: string, service: string): Promise<z.infer<typeof serviceSchema> | undefined> {
+  try {
+    const page = await paginateQuery((body) => cachedCoreRequest('service', '/services/query', 'POST', body), { key: 'services', order: byField('name') }, { ids: [service] });
+    const services = validateResponse(tool, z.array(serviceSchema), page.services).data as z.infer<typeof serviceSchema>[];
+    return services.find((candidate) => candidate.id === service || candidate.name === service);
+  } catch (error) {
+    logger.warn('Service lookup failed', { tool, service, error });
+    return undefined;
+  }
+}
+
+/**
+ * Ranks the deployments of a service, and of the services it depends on, that started in the look-back window
+ * before an incident. Dependencies come from the input, else from the service's `metadata.dependencies`.
+ */
+async function correlateDeployments(
+  input: z.infer<typeof correlateDeploymentsSchema>,
+  localIncidentId: string | undefined
+): Promise<Record<string, unknown>> {
+  const tool = 'correlate-deployments';
+  let service = input.service;
+  let at = input.at;
+  if (localIncidentId !== undefined) {
+    const incident = validateResponse(tool, incidentSchema, await coreRequest(`/incidents/${encodeURIComponent(localIncidentId)}`, 'GET')).data as z.infer<
+      typeof incidentSchema
+    >;
+    service = service ?? incident.service;
+    at = at ?? incident.createdAt;
+    if (!service) {
+      throw new ToolInputError(`incident ${localIncidentId} has no service; pass service to say which deployments to correlate`);
+    }
+  }
+  if (!service || !at) {
+    throw new ToolInputError('pass incidentId, or service and at');
+  }
+
+  const record = await lookupService(tool, service);
+  const tagEnvironment = record?.tags?.environment ?? record?.metadata?.environment;
+  const environment = input.environment ?? (typeof tagEnvironment === 'string' ? tagEnvironment : undefined);
+  const dependencies = (input.dependencies ?? stringList(record?.metadata?.dependencies) ?? []).filter((dependency) => dependency !== service);
+  const end = Date.parse(at);
+  const start = end - (input.lookbackHours ?? 24) * 60 * 60_000;
+  const window = { start: new Date(start).toISOString(), end: new Date(end).toISOString() };
+
+  const truncated: string[] = [];
+  const load = async (name: string) => {
+    const collected = await collectWindow(
+      (body) => coreRequest('/deployments/query', 'POST', body),
+      { key: 'deployments', order: byNewest('startedAt') },
+      { scope: { service: name, ...(environment ? { environment } : {}) } },
+      { field: 'startedAt', start, end, limit: input.limit ?? 50 }
+    );
+    const deployments = validateResponse(tool, z.array(deploymentSchema), collected.items).data as Record<string, unknown>[];
+    if (collected.hasMore) {
+      truncated.push(name);
+    }
+    // Core may leave service unset on scoped results; the scope says whose deployment it is.
+    return deployments.map((deployment) => ({ service: name, ...deployment }));
+  };
+  // The affected service's own history is the point of the tool, so only dependency failures are tolerated.
+  const [own, ...others] = await Promise.all([
+    load(service),
+    ...dependencies.map((name) =>
+      load(name).then(
+        (deployments) => ({ ok: true as const, deployments }),
+        (error) => ({ ok: false as const, service: name, error: asToolError(error).structuredContent.error })
+      )
+    ),
+  ]);
+  const errors = others.flatMap((result) => (result.ok ? [] : [{ service: result.service, error: result.error }]));
+  const ranked = rankDeployments([...own, ...others.flatMap((result) => (result.ok ? result.deployments : []))], { at: end, service });
+
+  return {
+    ...(input.incidentId ? { incidentId: input.incidentId } : {}),
+    service,
+    ...(environment ? { environment } : {}),
+    at: window.end,
+    window,
+    dependencies,
+    deployments: ranked.map((entry) => ({ ...entry, deployment: tagNested(entry.deployment) })),
+    ...(errors.length > 0 ? { errors } : {}),
+    ...(truncated.length > 0 ? { truncated } : {}),
+  };
+}
+
+function summarizeCorrelation(report: Record<string, unknown>): string {
+  const ranked = report.deployments as { deployment: Record<string, unknown>; score: number; reasons: string[] }[];
+  const window = report.window as { start: string; end: string };
+  const header = `${ranked.length} deployment(s) of ${String(report.service)}${(report.dependencies as string[]).length > 0 ? ' and its dependencies' : ''} between ${window.start} and ${window.end}, most suspicious first:`;
+  const lines = ranked.slice(0, 5).map(({ deployment, score, reasons }, i) => {
+    const label = [deployment.service, deployment.version ?? deployment.id].filter(Boolean).join(' ');
+    return `${i + 1}. ${label} (${String(deployment.status)}) score ${score}: ${reasons.join('; ')}`;
+  });
+  const failed = ((report.errors as { service: string; error: Record<string, unknown> }[] | undefined) ?? []).map(
+    (entry) => `Deployments for dependency ${entry.service} were unavailable: ${String(entry.error.message)}`
+  );
+  const truncated = ((report.truncated as string[] | undefined) ?? []).map(
+    (service) => `Deployments for ${service} were truncated; its window may hold more than were ranked.`
+  );
+  return [header, ...lines, ...failed, ...truncated].join('\n');
+}
+
+function describeSeriesSummary(series: { name: string; labels?: Record<string, unknown> | undefined; summary: SeriesSummary }): string {
+  const labels = series.labels && Object.keys(series.labels).length > 0 ? `{${Object.entries(series.labels).map(([k, v]) => `${k}=${String(v)}`).join(',')}}` : '';
+  const { summary } = series;
+  if (summary.count === 0) {
+    return `${series.name}${labels}: no points`;
+  }
+  const parts = [
+    `${summary.count} points`,
+    `min ${summary.min!.value}`,
+    `max ${summary.max!.value}`,
+    `mean ${summary.mean}`,
+    `p95 ${summary.p95}`,
+    `last ${summary.last!.value} at ${summary.last!.timestamp}`,
+    `trend ${summary.trend!.direction} (${summary.trend!.slopePerHour}/h)`,
+    ...(summary.spikes!.length > 0 ? [`spikes at ${summary.spikes!.map((spike) => `${spike.timestamp} (${spike.value})`).join(', ')}`] : []),
+    ...(summary.changePoints!.length > 0
+      ? [`level shifts at ${summary.changePoints!.map((change) => `${change.timestamp} (${change.before} -> ${change.after})`).join(', ')}`]
+      : []),
+  ];
+  return `${series.name}${labels}: ${parts.join('; ')}${summary.sparkline ? `\n  ${summary.sparkline}` : ''}`;
+}
+
+// Attaches the per-Core outcome of a federated call; failed Cores are also called out in text so the model
+// knows the merged result is partial.
+function withFederationReport(result: ToolContent, federation: FederationReport | undefined): ToolContent {
+  if (!federation) {
+    return result;
+  }
+  const failed = federation.origins.filter((origin) => !origin.ok);
+  return {
+    ...result,
+    content: [
+      ...result.content,
+      ...(failed.length > 0
+        ? [
+            {
+              type: 'text' as const,
+              text: `Partial federated result; these OpsOrch Cores failed:\n${failed.map((o) => `- ${o.origin}: ${o.error?.message ?? 'unknown error'}`).join('\n')}`,
+            },
+          ]
+        : []),
+    ],
+    _meta: { ...result._meta, 'opsorch/federation': federation },
+  };
+}
+
+// Replaces the compact `q` string with the expression it compiles to; Core only understands the structured form.
+function compileLogQuery<T extends { q?: string | undefined; expression?: unknown }>(payload: T): Omit<T, 'q'> {
+  const { q, ...rest } = payload;
+  if (q === undefined) {
+    return rest;
+  }
+  if (rest.expression !== undefined) {
+    throw new ToolInputError('pass either q or expression, not both');
+  }
+  return { ...rest, expression: parseLogQuery(q) };
+}
+
+// Resolves relative start/end/step into the absolute values Core expects; incident anchors are routed like get-incident.
+async function resolveQueryRange<T extends TimeRangeInput>(payload: T): Promise<{ query: Omit<T, keyof TimeRangeInput> & ResolvedTimeRange; range: ResolvedTimeRange }> {
+  const range = await resolveTimeRange(payload, async (id) => {
+    const incident = await routeById(id, (localId) => coreRequest<{ createdAt?: unknown }>(`/incidents/${encodeURIComponent(localId)}`, 'GET'));
+    return String(incident?.createdAt);
+  });
+  return { query: { ...payload, ...range }, range };
+}
+
+// Echoes the range a query actually ran over, so the model can quote it or reuse it when paging.
+function withTimeRange(result: ToolContent, range: ResolvedTimeRange): ToolContent {
+  const step = range.step !== undefined ? ` (step ${range.step}s)` : '';
+  return {
+    ...result,
+    content: [...result.content, { type: 'text' as const, text: `Resolved time range: ${range.start} to ${range.end}${step}` }],
+    _meta: { ...result._meta, 'opsorch/timeRange': range },
+  };
+}
+
+// The `extra` argument the MCP SDK passes to every tool callback.
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+function isToolExtra(value: unknown): value is ToolExtra {
+  return typeof value === 'object' && value !== null && 'signal' in value && 'sendNotification' in value;
+}
+
+// Progress is only reported when the client asked for it with a progressToken.
+function progressSender(extra: ToolExtra | undefined): ProgressSender | undefined {
+  const progressToken = extra?._meta?.progressToken;
+  if (!extra || progressToken === undefined) {
+    return undefined;
+  }
+  return (progress, message) => extra.sendNotification({ method: 'notifications/progress', params: { progressToken, progress, message } });
+}
+
+// Wraps a tool callback so Core failures come back as structured `isError` results instead of protocol errors.
+// Also puts the request's abort signal and progress channel in scope for the Core calls the handler makes.
+function withToolErrors<A extends unknown[], R>(handler: (...args: A) => Promise<R>): (...args: A) => Promise<R | ReturnType<typeof asToolError>> {
+  return async (...args: A) => {
+    const extra = args.find(isToolExtra);
+    try {
+      return await runWithToolCall(extra?.signal, progressSender(extra), () => handler(...args));
+    } catch (error) {
+      return asToolError(error);
+    }
+  };
+}
+
+// Incidents in these states are left out of resources/list; every other status counts as open.
+const CLOSED_INCIDENT_STATUSES = new Set(['resolved', 'closed', 'cancelled', 'canceled']);
+
+const RESOURCE_LIST_LIMIT = 100;
+
+// URI template variables arrive percent-encoded; IDs are sent to Core (and routed by origin) decoded.
+function resourceId(variables: Record<string, string | string[]>, name = 'id'): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value.join(',') : (value ?? ''));
+}
+
+// resources/list merges every template's listing, so one failing Core call should only empty its own part.
+function listOrEmpty(name: string, list: () => Promise<ListResourcesResult>): () => Promise<ListResourcesResult> {
+  return async () => {
+    try {
+      return await list();
+    } catch (error) {
+      logger.warn('Resource listing failed', { resource: name, error });
+      return { resources: [] };
+    }
+  };
+}
+
+function asResourceContents(uri: URL, data: unknown): { contents: { uri: string; mimeType: string; text: string }[] } {
+  return { contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }] };
+}
+
+// Services have no by-ID endpoint, so a service resource is the matching entry of an ids query.
+async function loadService(id: string): Promise<unknown> {
+  return routeById(id, async (localId) => {
+    const page = await paginateQuery((body) => cachedCoreRequest('service', '/services/query', 'POST', body), { key: 'services', order: byField('name') }, { ids: [localId] });
+    const service = (page.services as { id?: unknown }[]).find((candidate) => candidate.id === localId);
+    if (!service) {
+      throw new ToolInputError(`service ${localId} was not found`);
+    }
+    return service;
+  });
+}
+
+const SUBSCRIBABLE_RESOURCES = 'opsorch://incidents/{id}, opsorch://incidents/{id}/timeline, or opsorch://alerts/{id}';
+
+function subscribableResource(uri: string): { kind: 'incident' | 'incident-timeline' | 'alert'; id: string } | undefined {
+  const match = /^opsorch:\/\/(incidents|alerts)\/([^/?#]+)(\/timeline)?$/.exec(uri);
+  if (!match || (match[1] === 'alerts' && match[3])) {
+    return undefined;
+  }
+  let id: string;
+  try {
+    id = decodeURIComponent(match[2]!);
+  } catch {
+    return undefined;
+  }
+  return { kind: match[1] === 'alerts' ? 'alert' : match[3] ? 'incident-timeline' : 'incident', id };
+}
+
+// Subscribers are told about status and severity changes, and about new timeline entries.
+async function loadSubscriptionSnapshot(uri: string): Promise<ResourceSnapshot> {
+  const resource = subscribableResource(uri);
+  if (!resource) {
+    throw new ToolInputError(`resource ${uri} does not support subscriptions; subscribe to ${SUBSCRIBABLE_RESOURCES}`);
+  }
+  switch (resource.kind) {
+    case 'incident': {
+      const data = await routeById(resource.id, (localId) => coreRequest(`/incidents/${encodeURIComponent(localId)}`, 'GET'));
+      const { status, severity } = validateResponse('subscription', incidentSchema, data).data as z.infer<typeof incidentSchema>;
+      return { status, severity };
+    }
+    case 'incident-timeline': {
+      const data = await routeById(resource.id, (localId) => coreRequest(`/incidents/${encodeURIComponent(localId)}/timeline`, 'GET'));
+      const entries = validateResponse('subscription', z.array(timelineEntrySchema), data).data as z.infer<typeof timelineEntrySchema>[];
+      return { timelineEntryIds: entries.map((entry) => entry.id) };
+    }
+    case 'alert': {
+      const data = await routeById(resource.id, (localId) => coreRequest(`/alerts/${encodeURIComponent(localId)}`, 'GET'));
+      const { status, severity } = validateResponse('subscription', alertSchema, data).data as z.infer<typeof alertSchema>;
+      return { status, severity };
+    }
+  }
+}
+
+type CompletionSource = 'service' | 'team' | 'metric' | 'plan';
+
+// Arguments with Core-backed completions. MCP only defines prompt and resource template references; `ref/tool`
+// is an OpsOrch extension so clients can also complete tool arguments, named by their dotted path.
+const RESOURCE_COMPLETIONS: Record<string, Record<string, CompletionSource>> = {
+  'opsorch://services/{id}': { id: 'service' },
+  'opsorch://teams/{id}/members': { id: 'team' },
+  'opsorch://orchestration/plans/{id}': { id: 'plan' },
+};
+
+const PROMPT_COMPLETIONS: Record<string, Record<string, CompletionSource>> = {
+  'handoff-summary': { service: 'service' },
+};
+
+const TOOL_ARGUMENT_COMPLETIONS: Record<string, CompletionSource> = {
+  'scope.service': 'service',
+  'scope.team': 'team',
+  'expression.metricName': 'metric',
+  planId: 'plan',
+};
+
+const TOOL_ID_COMPLETIONS: Record<string, CompletionSource> = {
+  'get-team': 'team',
+  'get-team-members': 'team',
+  'get-orchestration-plan': 'plan',
+};
+
+const toolReferenceSchema = z.object({ type: z.literal('ref/tool'), name: z.string() });
+
+const completeRequestSchema = CompleteRequestSchema.extend({
+  params: CompleteRequestSchema.shape.params.extend({
+    ref: z.union([PromptReferenceSchema, ResourceTemplateReferenceSchema, toolReferenceSchema]),
+  }),
+});
+
+function completionSource(ref: z.infer<typeof completeRequestSchema>['params']['ref'], argument: string): CompletionSource | undefined {
+  switch (ref.type) {
+    case 'ref/resource':
+      return RESOURCE_COMPLETIONS[ref.uri]?.[argument];
+    case 'ref/prompt':
+      return PROMPT_COMPLETIONS[ref.name]?.[argument];
+    case 'ref/tool':
+      return argument === 'id' ? TOOL_ID_COMPLETIONS[ref.name] : TOOL_ARGUMENT_COMPLETIONS[argument];
+  }
+}
+
+function stringIds(items: unknown, field = 'id'): string[] {
+  return Array.isArray(items) ? items.flatMap((item) => (typeof item?.[field] === 'string' ? [item[field] as string] : [])) : [];
+}
+
+// Candidates share the response cache under the short `completion` TTL, partitioned by Core credential like other entries.
+// Metric names follow `scope.service` when the client has already filled it in.
+async function completionCandidates(source: CompletionSource, context: Record<string, string> | undefined): Promise<string[]> {
+  const scope = source === 'metric' && context?.['scope.service'] ? { service: context['scope.service'] } : {};
+  const key = `${fingerprint(getCoreToken() ?? '')} completion ${source} ${canonicalJson(scope)}`;
+  return responseCache.getOrLoad(key, getCacheTtlMs('completion'), async () => {
+    switch (source) {
+      case 'service': {
+        const { data } = await federatedPaginate((body) => coreRequest('/services/query', 'POST', body), { key: 'services', order: byField('name') }, { fetchAll: true });
+        return stringIds(data.services);
+      }
+      case 'team':
+        return stringIds((await federatedList(() => coreRequest('/teams/query', 'POST', {}), byField('name'))).data);
+      case 'metric': {
+        const catalog = validateResponse('completion', metricCatalogSchema, await coreRequest('/metrics/describe', 'POST', scope)).data as z.infer<typeof metricCatalogSchema>;
+        return catalog.metrics.map((metric) => metric.name);
+      }
+      case 'plan':
+        return stringIds((await federatedList(() => coreRequest('/orchestration/plans/query', 'POST', {}), byField('title'))).data);
+    }
+  });
+}
+
+// Everything a prompt attaches besides the incident itself is best-effort: a failing source is described, not fatal.
+async function promptSection(label: string, uri: string | undefined, load: () => Promise<unknown>): Promise<PromptContext> {
+  try {
+    return { label, ...(uri ? { uri } : {}), data: await load() };
+  } catch (error) {
+    logger.warn('Prompt data unavailable', { label, error });
+    return { label, ...(uri ? { uri } : {}), error: String(asToolError(error).structuredContent.error.message) };
+  }
+}
+
+async function incidentPromptContext(id: string): Promise<{ incident: z.infer<typeof incidentSchema>; sections: PromptContext[] }> {
+  const uri = `opsorch://incidents/${encodeURIComponent(id)}`;
+  const data = await routeById(id, (localId) => coreRequest(`/incidents/${encodeURIComponent(localId)}`, 'GET'));
+  const incident = validateResponse('prompt', incidentSchema, data).data as z.infer<typeof incidentSchema>;
+  const timeline = await promptSection('Timeline', `${uri}/timeline`, async () => {
+    const entries = await routeById(id, (localId) => coreRequest(`/incidents/${encodeURIComponent(localId)}/timeline`, 'GET'));
+    return validateResponse('prompt', z.array(timelineEntrySchema), entries).data;
+  });
+  return { incident, sections: [{ label: 'Incident', uri, data: incident }, timeline] };
+}
+
+type ServerOptions = {
+  // Without a poller (stateless HTTP requests), resources/subscribe is not offered.
+  subscriptions?: SubscriptionPoller;
+};
+
+function buildServer(options: ServerOptions = {}): McpServer {
+  const server = new McpServer({
+    name: 'opsorch-mcp',
+    version: pkgVersion,
+  });
+
+  // Incidents
+  server.registerTool(
+    'query-incidents',
+    {
+      title: 'Query Incidents',
+      description: 'Search incidents via POST /incidents/query using scope, status, or metadata filters when you need a targeted list to inspect. Returns nextCursor/hasMore; pass nextCursor back as cursor for the next page, or set fetchAll for bulk analysis.',
+      inputSchema: incidentQuerySchema,
+      outputSchema: incidentPageSchema,
+    },
+    withToolErrors(async (input) => {
+      const payload = incidentQuerySchema.parse(input);
+      const { data, federation } = await federatedPaginate((body) => coreRequest('/incidents/query', 'POST', body), { key: 'incidents', order: byNewest('createdAt') }, payload);
+      return withFederationReport(asValidatedContent('query-incidents', incidentPageSchema, data), federation);
+    })
+  );
+
+  server.registerTool(
+    'get-incident',
+    {
+      title: 'Get Incident',
+      description: 'Retrieve the full incident payload with GET /incidents/{id} before updating or appending evidence.',
+      inputSchema: z.object({ id: z.string() }),
+      outputSchema: incidentSchema,
+    },
+    withToolErrors(async ({ id }) => {
+      const data = await routeById(id, (localId) => coreRequest(`/incidents/${encodeURIComponent(localId)}`, 'GET'));
+      return asValidatedContent('get-incident', incidentSchema, data);
+    })
+  );
+
+  server.registerTool(
+    'get-incident-timeline',
+    {
+      title: 'Get Incident Timeline',
+      description: 'Read the chronological audit trail for an incident through GET /incidents/{id}/timeline.',
+      inputSchema: z.object({ id: z.string() }),
+      outputSchema: z.array(timelineEntrySchema),
+    },
+    withToolErrors(async ({ id }) => {
+      const data = await routeById(id, (localId) => coreRequest(`/incidents/${encodeURIComponent(localId)}/timeline`, 'GET'));
+      return asValidatedContent('get-incident-timeline', z.array(timelineEntrySchema), data);
+    })
+  );
+
+  if (isWriteEnabled()) {
+    server.registerTool(
+      'create-incident',
+      {
+        title: 'Create Incident',
+        description: 'Open a new incident with POST /incidents once evidence shows a real customer-facing problem. Set dryRun to see the exact request without sending it.',
+        inputSchema: createIncidentSchema,
+        outputSchema: z.union([incidentSchema, mutationPreviewSchema]),
+      },
+      withToolErrors(async (input, extra) => {
+        const { origin, dryRun, ...body } = createIncidentSchema.parse(input);
+        const data = await routeToOrigin(origin, () => mutateCore('create-incident', 'POST', '/incidents', body, { dryRun, authInfo: extra.authInfo }));
+        return dryRun ? asContent(data) : asValidatedContent('create-incident', incidentSchema, data);
+      })
+    );
+
+    server.registerTool(
+      'update-incident',
+      {
+        title: 'Update Incident',
+        description: 'Change an incident\'s status, severity, title, or fields with PATCH /incidents/{id}; only the fields you pass are sent. Set dryRun to see the exact request without sending it.',
+        inputSchema: updateIncidentSchema,
+        outputSchema: z.union([incidentSchema, mutationPreviewSchema]),
+      },
+      withToolErrors(async (input, extra) => {
+        const { id, dryRun, ...body } = updateIncidentSchema.parse(input);
+        if (Object.keys(body).length === 0) {
+          throw new ToolInputError('update-incident needs at least one field to change');
+        }
+        const data = await routeById(id, (localId) =>
+          mutateCore('update-incident', 'PATCH', `/incidents/${encodeURIComponent(localId)}`, body, { dryRun, authInfo: extra.authInfo })
+        );
+        return dryRun ? asContent(data) : asValidatedContent('update-incident', incidentSchema, data);
+      })
+    );
+
+    server.registerTool(
+      'append-incident-timeline',
+      {
+        title: 'Append Incident Timeline',
+        description: 'Record a finding, action, or status note on an incident with POST /incidents/{id}/timeline. Set dryRun to see the exact request without sending it.',
+        inputSchema: appendIncidentTimelineSchema,
+        outputSchema: z.union([timelineEntrySchema, mutationPreviewSchema]),
+      },
+      withToolErrors(async (input, extra) => {
+        const { id, dryRun, ...body } = appendIncidentTimelineSchema.parse(input);
+        const data = await routeById(id, (localId) =>
+          mutateCore('append-incident-timeline', 'POST', `/incidents/${encodeURIComponent(localId)}/timeline`, body, { dryRun, authInfo: extra.authInfo })
+        );
+        return dryRun ? asContent(data) : asValidatedContent('append-incident-timeline', timelineEntrySchema, data);
+      })
+    );
+  }
+
+  server.registerTool(
+    'investigate-incident',
+    {
+      title: 'Investigate Incident',
+      description:
+        'Collect triage evidence for an incident in one call: the incident, its timeline, and the alerts, deployments, logs, and metrics for its service around createdAt (60 minutes before to 30 minutes after by default). Sources are queried in parallel; a failing source is reported in its section without failing the rest.',
+      inputSchema: investigateIncidentSchema,
+      outputSchema: investigationSchema,
+    },
+    withToolErrors(async (input) => {
+      const payload = investigateIncidentSchema.parse(input);
+      const report = await routeById(payload.id, (localId) => investigateIncident(localId, payload));
+      const result = asContent(report);
+      return { ...result, content: [{ type: 'text' as const, text: summarizeInvestigation(report) }, ...result.content] };
+    })
+  );
+
+  server.registerTool(
+    'correlate-deployments',
+    {
+      title: 'Correlate Deployments',
+      description:
+        'Rank the deployments that may have caused an incident. Pass incidentId, or service and at (ISO-8601). Deployments of the service and its dependencies (from dependencies, else the service\'s metadata.dependencies) that started in the look-back window (24 hours by default) are scored 0-100 on time proximity, failed or rolled-back status, and same service versus dependency, with the reasoning behind every score.',
+      inputSchema: correlateDeploymentsSchema,
+      outputSchema: deploymentCorrelationSchema,
+    },
+    withToolErrors(async (input) => {
+      const payload = correlateDeploymentsSchema.parse(input);
+      const report = payload.incidentId
+        ? await routeById(payload.incidentId, (localId) => correlateDeployments(payload, localId))
+        : await routeToOrigin(payload.origin, () => correlateDeployments(payload, undefined));
+      const result = asContent(report);
+      return { ...result, content: [{ type: 'text' as const, text: summarizeCorrelation(report) }, ...result.content] };
+    })
+  );
 
   // Alerts
   server.registerTool(
     'query-alerts',
     {
       title: 'Query Alerts',
-      description: 'Search normalized alert signals via POST /alerts/query for upstream detectors.',
+      description: 'Search normalized alert signals via POST /alerts/query for upstream detectors. Returns nextCursor/hasMore; pass nextCursor back as cursor for the next page, or set fetchAll for bulk analysis.',
       inputSchema: alertQuerySchema,
-      outputSchema: z.array(alertSchema),
+      outputSchema: alertPageSchema,
     },
-    async (input) => {
+    withToolErrors(async (input) => {
       const payload = alertQuerySchema.parse(input);
-      const data = await coreRequest('/alerts/query', 'POST', payload);
-      return asContent(data);
-    }
+      const { data, federation } = await federatedPaginate((body) => coreRequest('/alerts/query', 'POST', body), { key: 'alerts', order: byNewest('createdAt') }, payload);
+      return withFederationReport(asValidatedContent('query-alerts', alertPageSchema, data), federation);
+    })
   );
 
   // Logs
@@ -459,15 +1734,42 @@ function buildServer(): McpServer {
     'query-logs',
     {
       title: 'Query Logs',
-      description: 'Pull scoped telemetry through POST /logs/query to gather evidence or validate hypotheses before mutating state.',
+      description: `Pull scoped telemetry through POST /logs/query to gather evidence or validate hypotheses before mutating state. start and end (default now) take ${TIME_EXPRESSION_HELP}; the resolved absolute range is echoed back. Instead of expression, q accepts ${LOG_QUERY_HELP}, e.g. service:checkout severity:error,warn status>=500 "timeout". Returns nextCursor/hasMore; pass nextCursor back as cursor for the next page, with the echoed absolute start/end when the range was relative, or set fetchAll for bulk analysis.`,
       inputSchema: logQuerySchema,
       outputSchema: logEntriesSchema,
     },
-    async (input) => {
-      const payload = logQuerySchema.parse(input);
-      const data = await coreRequest('/logs/query', 'POST', payload);
-      return asContent(data);
-    }
+    withToolErrors(async (input) => {
+      const { query, range } = await resolveQueryRange(compileLogQuery(logQuerySchema.parse(input)));
+      const { data, federation } = await federatedPaginate((body) => coreRequest('/logs/query', 'POST', body), { key: 'entries', order: byNewest('timestamp') }, query);
+      return withTimeRange(withFederationReport(asValidatedContent('query-logs', logEntriesSchema, data), federation), range);
+    })
+  );
+
+  server.registerTool(
+    'cluster-logs',
+    {
+      title: 'Cluster Logs',
+      description:
+        'Run a query-logs search and group the entries into message templates, masking variable tokens (UUIDs, timestamps, IPs, hex, IDs, numbers). Each cluster has its count, severity breakdown, first/last seen, and sample lines. order "volume" (default) lists the noisiest templates first; "rarity" lists the least frequent first to surface novel messages in an error storm. Walks all pages (fetchAll) unless fetchAll is false.',
+      inputSchema: clusterLogsSchema,
+      outputSchema: logClustersSchema,
+    },
+    withToolErrors(async (input) => {
+      const { order, maxClusters, samplesPerCluster, ...payload } = clusterLogsSchema.parse(input);
+      const { query, range } = await resolveQueryRange(compileLogQuery(payload));
+      const { data, federation } = await federatedPaginate(
+        (body) => coreRequest('/logs/query', 'POST', body),
+        { key: 'entries', order: byNewest('timestamp') },
+        { fetchAll: true, ...query }
+      );
+      const { entries, ...page } = validateResponse('cluster-logs', logEntriesSchema, data).data as z.infer<typeof logEntriesSchema>;
+      const clusters = clusterLogs(entries, { order, samples: samplesPerCluster });
+      const shown = clusters.slice(0, maxClusters ?? 50);
+      const result = asContent({ ...page, clusters: shown, totalEntries: entries.length, totalClusters: clusters.length });
+      const lines = shown.map((cluster) => `${cluster.count}x ${cluster.template}`);
+      const summary = `${entries.length} entries in ${clusters.length} template(s)${shown.length < clusters.length ? `, showing ${shown.length}` : ''}:\n${lines.join('\n')}`;
+      return withTimeRange(withFederationReport({ ...result, content: [{ type: 'text' as const, text: summary }, ...result.content] }, federation), range);
+    })
   );
 
   // Metrics
@@ -475,30 +1777,56 @@ function buildServer(): McpServer {
     'query-metrics',
     {
       title: 'Query Metrics',
-      description: 'Fetch normalized metric time series with POST /metrics/query to confirm trends or mitigation impact.',
+      description: `Fetch normalized metric time series with POST /metrics/query to confirm trends or mitigation impact. start and end (default now) take ${TIME_EXPRESSION_HELP}; step is seconds or a duration such as "1m". The resolved absolute range is echoed back.`,
       inputSchema: metricQuerySchema,
       outputSchema: z.array(metricSeriesSchema),
     },
-    async (input) => {
-      const payload = metricQuerySchema.parse(input);
-      const data = await coreRequest('/metrics/query', 'POST', payload);
-      return asContent(data);
-    }
+    withToolErrors(async (input) => {
+      const { query, range } = await resolveQueryRange(metricQuerySchema.parse(input));
+      const { data, federation } = await federatedList(() => coreRequest('/metrics/query', 'POST', query));
+      return withTimeRange(withFederationReport(asValidatedContent('query-metrics', z.array(metricSeriesSchema), data), federation), range);
+    })
+  );
+
+  server.registerTool(
+    'summarize-metrics',
+    {
+      title: 'Summarize Metrics',
+      description:
+        'Query metric series like query-metrics but return per-series statistics instead of raw points: min/max/mean/p50/p95/p99, last value, least-squares trend per hour, robust-z spikes, and mean-shift change points, each with timestamps. Set sparklineWidth for a downsampled sparkline. Prefer this over query-metrics for long windows or many series.',
+      inputSchema: summarizeMetricsSchema,
+      outputSchema: z.array(metricSummarySchema),
+    },
+    withToolErrors(async (input) => {
+      const { sparklineWidth, ...payload } = summarizeMetricsSchema.parse(input);
+      const { query, range } = await resolveQueryRange(payload);
+      const { data, federation } = await federatedList(() => coreRequest('/metrics/query', 'POST', query));
+      const series = validateResponse('summarize-metrics', z.array(metricSeriesSchema), data).data as z.infer<typeof metricSeriesSchema>[];
+      const summaries = series.map(({ points, ...rest }) => ({ ...rest, summary: summarizeSeries(points, { sparklineWidth }) }));
+      const result = asContent(summaries);
+      return withTimeRange(
+        withFederationReport(
+          { ...result, content: [{ type: 'text' as const, text: summaries.map(describeSeriesSummary).join('\n') || 'No series matched.' }, ...result.content] },
+          federation
+        ),
+        range
+      );
+    })
   );
 
   server.registerTool(
     'describe-metrics',
     {
       title: 'Describe Metrics',
-      description: 'List available metrics with POST /metrics/describe to discover what metrics are exposed by the provider.',
+      description: 'List available metrics with POST /metrics/describe to discover what metrics are exposed by the provider. Results are cached briefly; set noCache for a fresh read.',
       inputSchema: describeMetricsInputSchema,
-      outputSchema: z.object({ metrics: z.array(metricDescriptorSchema) }),
+      outputSchema: metricCatalogSchema,
     },
-    async (input) => {
-      const payload = describeMetricsInputSchema.parse(input);
-      const data = await coreRequest('/metrics/describe', 'POST', payload.scope ?? {});
-      return asContent(data);
-    }
+    withToolErrors(async (input) => {
+      const { noCache, ...payload } = describeMetricsInputSchema.parse(input);
+      const data = await cachedCoreRequest('metric', '/metrics/describe', 'POST', payload.scope ?? {}, noCache);
+      return asValidatedContent('describe-metrics', metricCatalogSchema, data);
+    })
   );
 
   // Tickets
@@ -506,15 +1834,15 @@ function buildServer(): McpServer {
     'query-tickets',
     {
       title: 'Query Tickets',
-      description: 'Search the ticket provider via POST /tickets/query when you need downstream work items tied to an incident.',
+      description: 'Search the ticket provider via POST /tickets/query when you need downstream work items tied to an incident. Returns nextCursor/hasMore; pass nextCursor back as cursor for the next page, or set fetchAll for bulk analysis.',
       inputSchema: ticketQuerySchema,
-      outputSchema: z.array(ticketSchema),
+      outputSchema: ticketPageSchema,
     },
-    async (input) => {
+    withToolErrors(async (input) => {
       const payload = ticketQuerySchema.parse(input);
-      const data = await coreRequest('/tickets/query', 'POST', payload);
-      return asContent(data);
-    }
+      const { data, federation } = await federatedPaginate((body) => coreRequest('/tickets/query', 'POST', body), { key: 'tickets', order: byNewest('createdAt') }, payload);
+      return withFederationReport(asValidatedContent('query-tickets', ticketPageSchema, data), federation);
+    })
   );
 
   server.registerTool(
@@ -525,25 +1853,136 @@ function buildServer(): McpServer {
       inputSchema: z.object({ id: z.string() }),
       outputSchema: ticketSchema,
     },
-    async ({ id }) => {
-      const data = await coreRequest(`/tickets/${encodeURIComponent(id)}`, 'GET');
-      return asContent(data);
-    }
+    withToolErrors(async ({ id }) => {
+      const data = await routeById(id, (localId) => coreRequest(`/tickets/${encodeURIComponent(localId)}`, 'GET'));
+      return asValidatedContent('get-ticket', ticketSchema, data);
+    })
   );
 
+  if (isWriteEnabled()) {
+    server.registerTool(
+      'create-ticket',
+      {
+        title: 'Create Ticket',
+        description:
+          'File a follow-up work item with POST /tickets. Pass incidentId to link the ticket to an incident: it is stored in the ticket fields and noted on the incident timeline. Repeating an identical call within ten minutes returns the first ticket instead of a duplicate; pass idempotencyKey to control this explicitly. Set dryRun to see the exact requests without sending them.',
+        inputSchema: createTicketSchema,
+        outputSchema: z.union([ticketSchema, mutationPreviewSchema]),
+      },
+      withToolErrors(async (input, extra) => {
+        const { origin, dryRun, idempotencyKey, incidentId, ...ticket } = createTicketSchema.parse(input);
+        const incidentOrigin = incidentId ? originOf(incidentId) : undefined;
+        // Under federation the ticket goes to the incident's Core unless another origin is named.
+        const targetOrigin = origin ?? incidentOrigin;
+        // The incident's own Core knows it by its local ID; any other Core only by the federated one.
+        const linkedId = incidentId && targetOrigin === incidentOrigin ? stripOrigin(incidentId) : incidentId;
+        const body = linkedId ? { ...ticket, fields: { ...ticket.fields, incidentId: linkedId } } : ticket;
+        const scope = idempotencyScope('create-ticket', describeCaller(extra.authInfo), idempotencyKey, { origin, incidentId, ...ticket }, targetOrigin);
+        const create = (options: { dryRun?: boolean | undefined }) =>
+          routeToOrigin(targetOrigin, () => mutateCore('create-ticket', 'POST', '/tickets', body, { ...options, authInfo: extra.authInfo, idempotencyKey: scope.key }));
+
+        if (dryRun) {
+          const preview = (await create({ dryRun: true })) as MutationPreview;
+          if (incidentId) {
+            preview.followUps = [await previewIncidentLink(incidentId, { id: '<created ticket id>' }, `Ticket created: ${ticket.title}`, extra.authInfo)];
+          }
+          return asContent(preview);
+        }
+
+        const { value, reused: replayed } = await idempotentResults.getOrLoadResult(scope.cacheKey, scope.ttlMs, () => create({}));
+        const created = value as Record<string, unknown>;
+        const link = incidentId
+          ? await linkTicketToIncident(incidentId, created, `Ticket ${String(created.key ?? created.id)} created: ${ticket.title}`, extra.authInfo, scope)
+          : undefined;
+        if (replayed) {
+          logger.info('Replayed idempotent create-ticket result', { ticketId: created.id });
+        }
+        return withTicketContext(asValidatedContent('create-ticket', ticketSchema, created), link, replayed);
+      })
+    );
+
+    server.registerTool(
+      'update-ticket',
+      {
+        title: 'Update Ticket',
+        description:
+          'Change a ticket\'s status, assignees, title, or fields with PATCH /tickets/{id}; only the fields you pass are sent. Pass incidentId to link the ticket to an incident in its fields and on the incident timeline. Set dryRun to see the exact requests without sending them.',
+        inputSchema: updateTicketSchema,
+        outputSchema: z.union([ticketSchema, mutationPreviewSchema]),
+      },
+      withToolErrors(async (input, extra) => {
+        const { id, dryRun, incidentId, ...changes } = updateTicketSchema.parse(input);
+        if (Object.keys(changes).length === 0 && !incidentId) {
+          throw new ToolInputError('update-ticket needs at least one field to change');
+        }
+        // The incident's own Core knows it by its local ID; any other Core only by the federated one.
+        const linkedId = incidentId && originOf(incidentId) === originOf(id) ? stripOrigin(incidentId) : incidentId;
+        const body = linkedId ? { ...changes, fields: { ...changes.fields, incidentId: linkedId } } : changes;
+        const note = `Ticket ${id} updated: ${Object.keys(changes).join(', ') || 'linked to this incident'}`;
+        const update = (options: { dryRun?: boolean | undefined }) =>
+          routeById(id, (localId) => mutateCore('update-ticket', 'PATCH', `/tickets/${encodeURIComponent(localId)}`, body, { ...options, authInfo: extra.authInfo }));
+
+        if (dryRun) {
+          const preview = (await update({ dryRun: true })) as MutationPreview;
+          if (incidentId) {
+            preview.followUps = [await previewIncidentLink(incidentId, { id }, note, extra.authInfo)];
+          }
+          return asContent(preview);
+        }
+
+        const updated = (await update({})) as Record<string, unknown>;
+        const link = incidentId ? await linkTicketToIncident(incidentId, updated, note, extra.authInfo) : undefined;
+        return withTicketContext(asValidatedContent('update-ticket', ticketSchema, updated), link, false);
+      })
+    );
+
+    server.registerTool(
+      'comment-ticket',
+      {
+        title: 'Comment on Ticket',
+        description:
+          'Add a comment to a ticket with POST /tickets/{id}/comments, e.g. to record findings for the assignee. Repeating an identical comment within ten minutes does not post it twice; pass idempotencyKey to control this explicitly. Set dryRun to see the exact request without sending it.',
+        inputSchema: commentTicketSchema,
+        outputSchema: z.union([ticketCommentSchema, mutationPreviewSchema]),
+      },
+      withToolErrors(async (input, extra) => {
+        const { id, dryRun, idempotencyKey, ...body } = commentTicketSchema.parse(input);
+        const scope = idempotencyScope('comment-ticket', describeCaller(extra.authInfo), idempotencyKey, { id, ...body }, originOf(id));
+        const comment = (options: { dryRun?: boolean | undefined }) =>
+          routeById(id, (localId) =>
+            mutateCore('comment-ticket', 'POST', `/tickets/${encodeURIComponent(localId)}/comments`, body, {
+              ...options,
+              authInfo: extra.authInfo,
+              idempotencyKey: scope.key,
+            })
+          );
+
+        if (dryRun) {
+          return asContent(await comment({ dryRun: true }));
+        }
+        const { value: data, reused: replayed } = await idempotentResults.getOrLoadResult(scope.cacheKey, scope.ttlMs, () => comment({}));
+        return withTicketContext(asValidatedContent('comment-ticket', ticketCommentSchema, data), undefined, replayed);
+      })
+    );
+  }
+
   server.registerTool(
     'query-services',
     {
       title: 'Query Services',
-      description: 'Look up service metadata by name, ID, or tags via POST /services/query to find owners or environments.',
+      description: 'Look up service metadata by name, ID, or tags via POST /services/query to find owners or environments. Returns nextCursor/hasMore; pass nextCursor back as cursor for the next page, or set fetchAll for bulk analysis. Results are cached briefly; set noCache for a fresh read.',
       inputSchema: serviceQuerySchema,
-      outputSchema: z.array(serviceSchema),
+      outputSchema: servicePageSchema,
     },
-    async (input) => {
-      const payload = serviceQuerySchema.parse(input);
-      const data = await coreRequest('/services/query', 'POST', payload);
-      return asContent(data);
-    }
+    withToolErrors(async (input) => {
+      const { noCache, ...payload } = serviceQuerySchema.parse(input);
+      const { data, federation } = await federatedPaginate(
+        (body) => cachedCoreRequest('service', '/services/query', 'POST', body, noCache),
+        { key: 'services', order: byField('name') },
+        payload
+      );
+      return withFederationReport(asValidatedContent('query-services', servicePageSchema, data), federation);
+    })
   );
 
   // Teams
@@ -551,15 +1990,15 @@ function buildServer(): McpServer {
     'query-teams',
     {
       title: 'Query Teams',
-      description: 'Search teams by name, tags, or scope via POST /teams/query to find team ownership and organizational structure.',
+      description: 'Search teams by name, tags, or scope via POST /teams/query to find team ownership and organizational structure. Results are cached briefly; set noCache for a fresh read.',
       inputSchema: teamQuerySchema,
       outputSchema: z.array(teamSchema),
     },
-    async (input) => {
-      const payload = teamQuerySchema.parse(input);
-      const data = await coreRequest('/teams/query', 'POST', payload);
-      return asContent(data);
-    }
+    withToolErrors(async (input) => {
+      const { noCache, ...payload } = teamQuerySchema.parse(input);
+      const { data, federation } = await federatedList(() => cachedCoreRequest('team', '/teams/query', 'POST', payload, noCache), byField('name'));
+      return withFederationReport(asValidatedContent('query-teams', z.array(teamSchema), data), federation);
+    })
   );
 
   server.registerTool(
@@ -570,24 +2009,24 @@ function buildServer(): McpServer {
       inputSchema: z.object({ id: z.string() }),
       outputSchema: teamSchema,
     },
-    async ({ id }) => {
-      const data = await coreRequest(`/teams/${encodeURIComponent(id)}`, 'GET');
-      return asContent(data);
-    }
+    withToolErrors(async ({ id }) => {
+      const data = await routeById(id, (localId) => coreRequest(`/teams/${encodeURIComponent(localId)}`, 'GET'));
+      return asValidatedContent('get-team', teamSchema, data);
+    })
   );
 
   server.registerTool(
     'get-team-members',
     {
       title: 'Get Team Members',
-      description: 'Retrieve team membership information with GET /teams/{id}/members to find team contacts and roles.',
-      inputSchema: z.object({ id: z.string() }),
+      description: 'Retrieve team membership information with GET /teams/{id}/members to find team contacts and roles. Results are cached briefly; set noCache for a fresh read.',
+      inputSchema: z.object({ id: z.string(), noCache: z.boolean().optional() }),
       outputSchema: z.array(teamMemberSchema),
     },
-    async ({ id }) => {
-      const data = await coreRequest(`/teams/${encodeURIComponent(id)}/members`, 'GET');
-      return asContent(data);
-    }
+    withToolErrors(async ({ id, noCache }) => {
+      const data = await routeById(id, (localId) => cachedCoreRequest('team', `/teams/${encodeURIComponent(localId)}/members`, 'GET', undefined, noCache));
+      return asValidatedContent('get-team-members', z.array(teamMemberSchema), data);
+    })
   );
 
   // Deployments
@@ -595,15 +2034,15 @@ function buildServer(): McpServer {
     'query-deployments',
     {
       title: 'Query Deployments',
-      description: 'Search deployment history via POST /deployments/query to correlate incidents with recent releases and track deployment status.',
+      description: 'Search deployment history via POST /deployments/query to correlate incidents with recent releases and track deployment status. Returns nextCursor/hasMore; pass nextCursor back as cursor for the next page, or set fetchAll for bulk analysis.',
       inputSchema: deploymentQuerySchema,
-      outputSchema: z.array(deploymentSchema),
+      outputSchema: deploymentPageSchema,
     },
-    async (input) => {
+    withToolErrors(async (input) => {
       const payload = deploymentQuerySchema.parse(input);
-      const data = await coreRequest('/deployments/query', 'POST', payload);
-      return asContent(data);
-    }
+      const { data, federation } = await federatedPaginate((body) => coreRequest('/deployments/query', 'POST', body), { key: 'deployments', order: byNewest('startedAt') }, payload);
+      return withFederationReport(asValidatedContent('query-deployments', deploymentPageSchema, data), federation);
+    })
   );
 
   server.registerTool(
@@ -614,10 +2053,10 @@ function buildServer(): McpServer {
       inputSchema: z.object({ id: z.string() }),
       outputSchema: deploymentSchema,
     },
-    async ({ id }) => {
-      const data = await coreRequest(`/deployments/${encodeURIComponent(id)}`, 'GET');
-      return asContent(data);
-    }
+    withToolErrors(async ({ id }) => {
+      const data = await routeById(id, (localId) => coreRequest(`/deployments/${encodeURIComponent(localId)}`, 'GET'));
+      return asValidatedContent('get-deployment', deploymentSchema, data);
+    })
   );
 
   // Orchestration Plans
@@ -629,11 +2068,11 @@ function buildServer(): McpServer {
       inputSchema: orchestrationPlanQuerySchema,
       outputSchema: z.array(orchestrationPlanSchema),
     },
-    async (input) => {
+    withToolErrors(async (input) => {
       const payload = orchestrationPlanQuerySchema.parse(input);
-      const data = await coreRequest('/orchestration/plans/query', 'POST', payload);
-      return asContent(data);
-    }
+      const { data, federation } = await federatedList(() => coreRequest('/orchestration/plans/query', 'POST', payload), byField('title'));
+      return withFederationReport(asValidatedContent('query-orchestration-plans', z.array(orchestrationPlanSchema), data), federation);
+    })
   );
 
   server.registerTool(
@@ -644,35 +2083,363 @@ function buildServer(): McpServer {
       inputSchema: z.object({ id: z.string() }),
       outputSchema: orchestrationPlanSchema,
     },
-    async ({ id }) => {
-      const data = await coreRequest(`/orchestration/plans/${encodeURIComponent(id)}`, 'GET');
-      return asContent(data);
-    }
+    withToolErrors(async ({ id }) => {
+      const data = await routeById(id, (localId) => coreRequest(`/orchestration/plans/${encodeURIComponent(localId)}`, 'GET'));
+      const result = asValidatedContent('get-orchestration-plan', orchestrationPlanSchema, data);
+      const { issues } = analyzePlan((result.structuredContent as z.infer<typeof orchestrationPlanSchema>).steps);
+      if (issues.length === 0) {
+        return result;
+      }
+      // A broken plan is still returned, but flagged so the agent does not follow it blindly.
+      return {
+        ...result,
+        content: [
+          ...result.content,
+          {
+            type: 'text' as const,
+            text: `Plan dependency problems (see analyze-orchestration-plan):\n${issues.map((issue) => `- ${issue.stepId} ${issue.message}`).join('\n')}`,
+          },
+        ],
+        _meta: { ...result._meta, 'opsorch/planIssues': issues },
+      };
+    })
+  );
+
+  server.registerTool(
+    'analyze-orchestration-plan',
+    {
+      title: 'Analyze Orchestration Plan',
+      description:
+        'Check a plan\'s dependsOn graph for missing step references, cycles, and steps that can never run, and lay it out as parallel execution stages with a Mermaid flowchart and a text outline. Pass a plan id to fetch it with GET /orchestration/plans/{id}, or pass a draft plan inline.',
+      inputSchema: analyzeOrchestrationPlanSchema,
+      outputSchema: planAnalysisSchema,
+    },
+    withToolErrors(async (input) => {
+      const { id, plan } = analyzeOrchestrationPlanSchema.parse(input);
+      if ((id === undefined) === (plan === undefined)) {
+        throw new ToolInputError('pass either id or plan');
+      }
+      const source = plan ?? (await routeById(id!, (localId) => coreRequest(`/orchestration/plans/${encodeURIComponent(localId)}`, 'GET')));
+      const { steps, id: planId } = validateResponse('analyze-orchestration-plan', orchestrationPlanSchema, source).data as z.infer<typeof orchestrationPlanSchema>;
+      const analysis = { planId, ...analyzePlan(steps) };
+      const result = asContent(analysis);
+      return {
+        ...result,
+        content: [...result.content, { type: 'text' as const, text: analysis.outline }, { type: 'text' as const, text: `\`\`\`mermaid\n${analysis.mermaid}\n\`\`\`` }],
+      };
+    })
+  );
+
+  server.registerTool(
+    'query-orchestration-runs',
+    {
+      title: 'Query Orchestration Runs',
+      description: 'List plan runs via POST /orchestration/runs/query, filtered by plan, incident, or status, to find work already underway.',
+      inputSchema: orchestrationRunQuerySchema,
+      outputSchema: z.array(orchestrationRunSchema),
+    },
+    withToolErrors(async (input) => {
+      const payload = orchestrationRunQuerySchema.parse(input);
+      const { data, federation } = await federatedList(() => coreRequest('/orchestration/runs/query', 'POST', payload), byNewest('createdAt'));
+      return withFederationReport(asValidatedContent('query-orchestration-runs', z.array(orchestrationRunSchema), data), federation);
+    })
+  );
+
+  server.registerTool(
+    'get-orchestration-run',
+    {
+      title: 'Get Orchestration Run',
+      description: 'Read a plan run with GET /orchestration/runs/{id}: every step\'s status plus actionableSteps (ready to work on now) and blockedSteps (waiting on prerequisites).',
+      inputSchema: z.object({ id: z.string() }),
+      outputSchema: orchestrationRunViewSchema,
+    },
+    withToolErrors(async ({ id }) => {
+      const data = await routeById(id, async (localId) => {
+        const run = await coreRequest<Record<string, unknown>>(`/orchestration/runs/${encodeURIComponent(localId)}`, 'GET');
+        return toRunView(run, await loadPlanSteps('get-orchestration-run', String(run.planId)));
+      });
+      return asValidatedContent('get-orchestration-run', orchestrationRunViewSchema, data);
+    })
   );
 
+  if (isWriteEnabled()) {
+    server.registerTool(
+      'start-orchestration-run',
+      {
+        title: 'Start Orchestration Run',
+        description: 'Start working through a plan for an incident with POST /orchestration/runs; the result lists the steps that can be started first. Set dryRun to see the exact request without sending it.',
+        inputSchema: startOrchestrationRunSchema,
+        outputSchema: z.union([orchestrationRunViewSchema, mutationPreviewSchema]),
+      },
+      withToolErrors(async (input, extra) => {
+        const { planId, incidentId, dryRun } = startOrchestrationRunSchema.parse(input);
+        const data = await routeById(planId, async (localPlanId) => {
+          const steps = await loadPlanSteps('start-orchestration-run', localPlanId);
+          const body = { planId: localPlanId, incidentId: stripOrigin(incidentId) };
+          const run = await mutateCore('start-orchestration-run', 'POST', '/orchestration/runs', body, { dryRun, authInfo: extra.authInfo });
+          return dryRun ? run : toRunView(run as Record<string, unknown>, steps);
+        });
+        return dryRun ? asContent(data) : asValidatedContent('start-orchestration-run', orchestrationRunViewSchema, data);
+      })
+    );
+
+    server.registerTool(
+      'update-orchestration-run-step',
+      {
+        title: 'Update Orchestration Run Step',
+        description:
+          'Mark a run step started, completed, or skipped with an optional note via PATCH /orchestration/runs/{id}/steps/{stepId}. A step can only be started or completed after every step in its dependsOn is completed or skipped. Set dryRun to check the change and see the exact request without sending it.',
+        inputSchema: updateOrchestrationRunStepSchema,
+        outputSchema: z.union([orchestrationRunViewSchema, mutationPreviewSchema]),
+      },
+      withToolErrors(async (input, extra) => {
+        const { runId, stepId, dryRun, ...body } = updateOrchestrationRunStepSchema.parse(input);
+        const data = await routeById(runId, async (localRunId) => {
+          const run = await coreRequest<Record<string, unknown>>(`/orchestration/runs/${encodeURIComponent(localRunId)}`, 'GET');
+          const steps = await loadPlanSteps('update-orchestration-run-step', String(run.planId));
+          assertStepTransition(steps, Array.isArray(run.steps) ? (run.steps as RunStep[]) : [], stepId, body.status);
+          const pathname = `/orchestration/runs/${encodeURIComponent(localRunId)}/steps/${encodeURIComponent(stepId)}`;
+          const updated = await mutateCore('update-orchestration-run-step', 'PATCH', pathname, body, { dryRun, authInfo: extra.authInfo });
+          return dryRun ? updated : toRunView(updated as Record<string, unknown>, steps);
+        });
+        return dryRun ? asContent(data) : asValidatedContent('update-orchestration-run-step', orchestrationRunViewSchema, data);
+      })
+    );
+  }
+
   // Providers
   server.registerTool(
     'list-providers',
     {
       title: 'List Capability Providers',
-      description: 'Inspect which back-end connectors are available for a capability via GET /providers/{capability}.',
-      inputSchema: z.object({ capability: capabilitySchema }),
+      description: 'Inspect which back-end connectors are available for a capability via GET /providers/{capability}. Results are cached briefly; set noCache for a fresh read.',
+      inputSchema: z.object({ capability: capabilitySchema, noCache: z.boolean().optional() }),
       outputSchema: providersResponseSchema,
     },
-    async ({ capability }) => {
-      const data = await coreRequest(`/providers/${encodeURIComponent(capability)}`, 'GET');
-      return asContent(data);
+    withToolErrors(async ({ capability, noCache }) => {
+      const data = await cachedCoreRequest('providers', `/providers/${encodeURIComponent(capability)}`, 'GET', undefined, noCache);
+      return asValidatedContent('list-providers', providersResponseSchema, data);
+    })
+  );
+
+  // Resources: the same Core calls as the get-* tools, addressable by URI for clients that attach context.
+  server.registerResource(
+    'incident',
+    new ResourceTemplate('opsorch://incidents/{id}', {
+      list: listOrEmpty('incident', async () => {
+        const { data } = await federatedPaginate((body) => coreRequest('/incidents/query', 'POST', body), { key: 'incidents', order: byNewest('createdAt') }, { limit: RESOURCE_LIST_LIMIT });
+        const incidents = validateResponse('resources/list', z.array(incidentSchema), data.incidents).data as z.infer<typeof incidentSchema>[];
+        return {
+          resources: incidents
+            .filter((incident) => !CLOSED_INCIDENT_STATUSES.has(incident.status.toLowerCase()))
+            .map((incident) => ({
+              uri: `opsorch://incidents/${encodeURIComponent(incident.id)}`,
+              name: incident.id,
+              title: incident.title,
+              description: `${incident.severity} ${incident.status}${incident.service ? ` incident on ${incident.service}` : ' incident'}`,
+              mimeType: 'application/json',
+            })),
+        };
+      }),
+    }),
+    { title: 'Incident', description: 'An incident record (GET /incidents/{id}); open incidents are listed.', mimeType: 'application/json' },
+    async (uri, variables) => {
+      const data = await routeById(resourceId(variables), (localId) => coreRequest(`/incidents/${encodeURIComponent(localId)}`, 'GET'));
+      return asResourceContents(uri, validateResponse('incident', incidentSchema, data).data);
+    }
+  );
+
+  server.registerResource(
+    'incident-timeline',
+    new ResourceTemplate('opsorch://incidents/{id}/timeline', { list: undefined }),
+    { title: 'Incident Timeline', description: 'Timeline entries for an incident (GET /incidents/{id}/timeline).', mimeType: 'application/json' },
+    async (uri, variables) => {
+      const data = await routeById(resourceId(variables), (localId) => coreRequest(`/incidents/${encodeURIComponent(localId)}/timeline`, 'GET'));
+      return asResourceContents(uri, validateResponse('incident-timeline', z.array(timelineEntrySchema), data).data);
+    }
+  );
+
+  server.registerResource(
+    'service',
+    new ResourceTemplate('opsorch://services/{id}', {
+      list: listOrEmpty('service', async () => {
+        const { data } = await federatedPaginate(
+          (body) => cachedCoreRequest('service', '/services/query', 'POST', body),
+          { key: 'services', order: byField('name') },
+          { limit: RESOURCE_LIST_LIMIT }
+        );
+        const services = validateResponse('resources/list', z.array(serviceSchema), data.services).data as z.infer<typeof serviceSchema>[];
+        return {
+          resources: services.map((service) => ({
+            uri: `opsorch://services/${encodeURIComponent(service.id)}`,
+            name: service.id,
+            title: service.name,
+            mimeType: 'application/json',
+          })),
+        };
+      }),
+    }),
+    { title: 'Service', description: 'A service record from POST /services/query; known services are listed.', mimeType: 'application/json' },
+    async (uri, variables) => asResourceContents(uri, validateResponse('service', serviceSchema, await loadService(resourceId(variables))).data)
+  );
+
+  server.registerResource(
+    'team-members',
+    new ResourceTemplate('opsorch://teams/{id}/members', { list: undefined }),
+    { title: 'Team Members', description: 'Members of a team (GET /teams/{id}/members).', mimeType: 'application/json' },
+    async (uri, variables) => {
+      const data = await routeById(resourceId(variables), (localId) => cachedCoreRequest('team', `/teams/${encodeURIComponent(localId)}/members`, 'GET'));
+      return asResourceContents(uri, validateResponse('team-members', z.array(teamMemberSchema), data).data);
+    }
+  );
+
+  server.registerResource(
+    'orchestration-plan',
+    new ResourceTemplate('opsorch://orchestration/plans/{id}', { list: undefined }),
+    { title: 'Orchestration Plan', description: 'An orchestration plan and its steps (GET /orchestration/plans/{id}).', mimeType: 'application/json' },
+    async (uri, variables) => {
+      const data = await routeById(resourceId(variables), (localId) => coreRequest(`/orchestration/plans/${encodeURIComponent(localId)}`, 'GET'));
+      return asResourceContents(uri, validateResponse('orchestration-plan', orchestrationPlanSchema, data).data);
+    }
+  );
+
+  server.registerResource(
+    'alert',
+    new ResourceTemplate('opsorch://alerts/{id}', { list: undefined }),
+    { title: 'Alert', description: 'An alert (GET /alerts/{id}).', mimeType: 'application/json' },
+    async (uri, variables) => {
+      const data = await routeById(resourceId(variables), (localId) => coreRequest(`/alerts/${encodeURIComponent(localId)}`, 'GET'));
+      return asResourceContents(uri, validateResponse('alert', alertSchema, data).data);
+    }
+  );
+
+  const { subscriptions } = options;
+  if (subscriptions) {
+    // One subscriber per connected server; the poller re-reads Core with the credentials of the subscribe request.
+    const subscriberId = randomUUID();
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const notify = (updatedUri: string, changes: string[]) => server.server.sendResourceUpdated({ uri: updatedUri, _meta: { 'opsorch/changes': changes } });
+      try {
+        await subscriptions.subscribe(uri, subscriberId, notify, getCoreCredentials());
+      } catch (error) {
+        if (error instanceof ToolInputError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+        throw error;
+      }
+      return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.unsubscribe(request.params.uri, subscriberId);
+      return {};
+    });
+    server.server.onclose = () => subscriptions.removeSubscriber(subscriberId);
+  }
+
+  // Prompts: workflow instructions that name the tools above, with the incident data already attached.
+  const promptIdSchema = z.string().min(1).describe('Incident ID, as returned by query-incidents');
+
+  server.registerPrompt(
+    'triage-incident',
+    {
+      title: 'Triage Incident',
+      description: 'Step-by-step triage of an incident using the investigation, correlation, and log tools, with the incident, timeline, and recent service alerts attached.',
+      argsSchema: { id: promptIdSchema },
+    },
+    async ({ id }) => {
+      const { incident, sections } = await incidentPromptContext(id);
+      const alerts = incident.service
+        ? [
+            await promptSection(`Recent alerts for ${incident.service}`, undefined, () =>
+              routeById(id, async () => {
+                const page = await paginateQuery((body) => coreRequest('/alerts/query', 'POST', body), { key: 'alerts', order: byNewest('createdAt') }, { scope: { service: incident.service }, limit: 20 });
+                return validateResponse('prompt', z.array(alertSchema), page.alerts).data;
+              })
+            ),
+          ]
+        : [];
+      return triageIncidentPrompt(id, [...sections, ...alerts], { writesEnabled: isWriteEnabled() });
     }
   );
 
+  server.registerPrompt(
+    'draft-status-update',
+    {
+      title: 'Draft Status Update',
+      description: 'Draft an internal or external (customer-facing) status update for an incident from its current record and timeline.',
+      argsSchema: { id: promptIdSchema, audience: z.enum(['internal', 'external']).optional() },
+    },
+    async ({ id, audience }) => {
+      const { sections } = await incidentPromptContext(id);
+      return draftStatusUpdatePrompt(id, audience ?? 'internal', sections, { writesEnabled: isWriteEnabled() });
+    }
+  );
+
+  server.registerPrompt(
+    'draft-postmortem',
+    {
+      title: 'Draft Postmortem',
+      description: 'Draft a blameless postmortem for an incident, with the incident and its timeline attached.',
+      argsSchema: { id: promptIdSchema },
+    },
+    async ({ id }) => {
+      const { sections } = await incidentPromptContext(id);
+      return draftPostmortemPrompt(id, sections, { writesEnabled: isWriteEnabled() });
+    }
+  );
+
+  server.registerPrompt(
+    'handoff-summary',
+    {
+      title: 'Handoff Summary',
+      description: 'Summarize an incident (id) or everything open on a service (service) for the responder taking over.',
+      argsSchema: { id: promptIdSchema.optional(), service: z.string().optional() },
+    },
+    async ({ id, service }) => {
+      if ((id === undefined) === (service === undefined)) {
+        throw new ToolInputError('pass either id or service');
+      }
+      if (id !== undefined) {
+        return handoffSummaryPrompt({ id }, (await incidentPromptContext(id)).sections);
+      }
+      const scope = { service: service! };
+      const sections = await Promise.all([
+        promptSection(`Open incidents for ${service}`, undefined, async () => {
+          const { data } = await federatedPaginate((body) => coreRequest('/incidents/query', 'POST', body), { key: 'incidents', order: byNewest('createdAt') }, { scope, limit: 50 });
+          const incidents = validateResponse('prompt', z.array(incidentSchema), data.incidents).data as z.infer<typeof incidentSchema>[];
+          return incidents.filter((incident) => !CLOSED_INCIDENT_STATUSES.has(incident.status.toLowerCase()));
+        }),
+        promptSection(`Recent deployments of ${service}`, undefined, async () => {
+          const { data } = await federatedPaginate((body) => coreRequest('/deployments/query', 'POST', body), { key: 'deployments', order: byNewest('startedAt') }, { scope, limit: 10 });
+          return validateResponse('prompt', z.array(deploymentSchema), data.deployments).data;
+        }),
+      ]);
+      return handoffSummaryPrompt({ service: service! }, sections);
+    }
+  );
+
+  // Replaces the SDK's completion handler, which only knows prompt and resource template references.
+  server.server.registerCapabilities({ completions: {} });
+  server.server.setRequestHandler(completeRequestSchema, async (request) => {
+    const { ref, argument, context } = request.params;
+    const source = completionSource(ref, argument.name);
+    if (!source) {
+      return { completion: { values: [] } };
+    }
+    try {
+      return { completion: matchCompletions(await completionCandidates(source, context?.arguments), argument.value) };
+    } catch (error) {
+      // Completion is a convenience; a failing Core should not surface as an error while someone types.
+      logger.warn('Completion candidates unavailable', { source, error });
+      return { completion: { values: [] } };
+    }
+  });
+
   return server;
 }
 
-type HttpSession = {
-  server: McpServer;
-  transport: StreamableHTTPServerTransport;
-};
-
 function isInitializeRequest(body: unknown): boolean {
   return !!body && typeof body === 'object' && !Array.isArray(body) && (body as { method?: unknown }).method === 'initialize';
 }
@@ -698,74 +2465,187 @@ export function classifyHttpRequest(
   return 'ephemeral';
 }
 
+function isLoopback(address: string | undefined): boolean {
+  return address === '127.0.0.1' || address === '::1' || address === '::ffff:127.0.0.1';
+}
+
+// Sent when HTTP auth cannot check a credential right now; the cause is logged rather than returned.
+const AUTH_UNAVAILABLE_MESSAGE = 'Authentication is temporarily unavailable; retry shortly';
+
+function sendJsonRpcError(res: express.Response, status: number, code: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: {
+      code,
+      message,
+    },
+    id: null,
+  });
+}
+
+// The SDK hands `req.auth` to tool handlers as `extra.authInfo`.
+function toAuthInfo(principal: Principal): AuthInfo {
+  return {
+    token: principal.credential,
+    clientId: principal.subject,
+    scopes: principal.scopes,
+    ...(principal.expiresAt !== undefined ? { expiresAt: principal.expiresAt } : {}),
+    extra: { principalType: principal.type },
+  };
+}
+
 export function createHttpApp() {
-  const httpPort = process.env.MCP_HTTP_PORT ? Number(process.env.MCP_HTTP_PORT) : 7070;
-  const allowOrigins = process.env.MCP_HTTP_ALLOW_ORIGINS?.split(',').map((s) => s.trim()).filter(Boolean);
-  const allowHosts = process.env.MCP_HTTP_ALLOW_HOSTS?.split(',').map((s) => s.trim()).filter(Boolean);
+  const httpConfig = getActiveConfig()?.http;
+  const httpPort = process.env.MCP_HTTP_PORT ? Number(process.env.MCP_HTTP_PORT) : httpConfig?.port ?? 7070;
+  const allowOrigins = process.env.MCP_HTTP_ALLOW_ORIGINS?.split(',').map((s) => s.trim()).filter(Boolean) ?? httpConfig?.allowOrigins;
+  const allowHosts = process.env.MCP_HTTP_ALLOW_HOSTS?.split(',').map((s) => s.trim()).filter(Boolean) ?? httpConfig?.allowHosts;
   const enableDnsRebindingProtection = hasHeaderAllowLists(allowOrigins, allowHosts);
-  const sessions = new Map<string, HttpSession>();
+  const authenticator = createHttpAuthenticator();
+  const sessionLimits = getSessionLimits();
+  const sessions = new SessionRegistry(sessionLimits);
+  sessions.start();
+  // Shared by all HTTP sessions; stateless requests cannot subscribe because nothing stays open to notify.
+  const subscriptions = new SubscriptionPoller(getSubscriptionLimits(), loadSubscriptionSnapshot);
+  subscriptions.start();
   const app = express();
   app.use(express.json());
 
+  // Session inventory for operators. With HTTP auth it needs the `admin` scope; without it, only loopback callers.
+  app.get('/admin/sessions', async (req, res) => {
+    if (authenticator) {
+      let principal: Principal;
+      try {
+        principal = await authenticator.authenticate((name) => req.get(name));
+      } catch (error) {
+        if (error instanceof AuthUnavailableError) {
+          res.set('Retry-After', '5');
+          res.status(503).json({ error: AUTH_UNAVAILABLE_MESSAGE });
+          return;
+        }
+        if (!(error instanceof AuthError)) {
+          throw error;
+        }
+        res.set('WWW-Authenticate', authenticator.schemes.includes('bearer') ? 'Bearer' : 'ApiKey');
+        res.status(401).json({ error: `Unauthorized: ${error.message}` });
+        return;
+      }
+      if (!principal.scopes.includes('admin')) {
+        res.status(403).json({ error: 'The admin scope is required' });
+        return;
+      }
+    } else if (!isLoopback(req.socket.remoteAddress)) {
+      res.status(403).json({ error: 'Session admin is only available from loopback unless HTTP auth is configured' });
+      return;
+    }
+    res.json({ limits: sessionLimits, active: sessions.size, sessions: sessions.list() });
+  });
+
   app.all('/mcp', async (req, res) => {
-    let session: HttpSession | undefined;
+    let session: Pick<HttpSession, 'server' | 'transport' | 'principal'> | undefined;
     let cleanupScheduled = false;
     let initializeSessionEstablished = false;
 
     try {
       const sessionId = req.get('mcp-session-id');
 
+      let principal: Principal | undefined;
+      if (authenticator) {
+        try {
+          principal = await authenticator.authenticate((name) => req.get(name));
+        } catch (error) {
+          if (error instanceof AuthUnavailableError) {
+            res.set('Retry-After', '5');
+            sendJsonRpcError(res, 503, -32001, AUTH_UNAVAILABLE_MESSAGE);
+            return;
+          }
+          if (!(error instanceof AuthError)) {
+            throw error;
+          }
+          logger.warn('Rejected unauthenticated MCP HTTP request', { reason: error.message, sessionId, ip: req.ip });
+          res.set('WWW-Authenticate', authenticator.schemes.includes('bearer') ? 'Bearer' : 'ApiKey');
+          sendJsonRpcError(res, 401, -32001, `Unauthorized: ${error.message}`);
+          return;
+        }
+        (req as express.Request & { auth?: AuthInfo }).auth = toAuthInfo(principal);
+      }
+
+      let credentials: CoreCredentials | undefined;
+      if (getCoreAuthMode() === 'passthrough') {
+        const header = getPassthroughHeader();
+        const inboundToken = extractInboundToken(req.get(header), header);
+        if (!inboundToken) {
+          sendJsonRpcError(res, 401, -32001, `Missing ${header} credential to forward to OpsOrch Core`);
+          return;
+        }
+        try {
+          credentials = await resolveForwardedCredentials(inboundToken, { header, sessionId });
+        } catch (error) {
+          logger.warn('OpsOrch Core token exchange failed', { error, sessionId });
+          sendJsonRpcError(res, 401, -32001, 'Credential could not be exchanged for an OpsOrch Core token');
+          return;
+        }
+      }
+
       const requestMode = classifyHttpRequest(req.method, sessionId ?? undefined, req.body);
 
       if (requestMode === 'session') {
         const existingSessionId = sessionId!;
-        session = sessions.get(existingSessionId);
-        if (!session) {
-          res.status(404).json({
-            jsonrpc: '2.0',
-            error: {
-              code: -32000,
-              message: 'Session not found',
-            },
-            id: null,
+        const existing = sessions.get(existingSessionId);
+        if (!existing) {
+          sendJsonRpcError(res, 404, -32000, 'Session not found');
+          return;
+        }
+        if (existing.principal && existing.principal.subject !== principal?.subject) {
+          logger.warn('Rejected MCP HTTP request for another principal\'s session', {
+            sessionId,
+            sessionPrincipal: existing.principal.subject,
+            principal: principal?.subject,
           });
+          sendJsonRpcError(res, 403, -32001, 'Session belongs to a different principal');
           return;
         }
+        sessions.touch(existing, req.body);
+        if (req.method === 'GET') {
+          res.on('close', sessions.openStream(existing));
+        }
+        session = existing;
       } else if (requestMode === 'session-required') {
-        res.status(400).json({
-          jsonrpc: '2.0',
-          error: {
-            code: -32000,
-            message: 'Session ID required',
-          },
-          id: null,
-        });
+        sendJsonRpcError(res, 400, -32000, 'Session ID required');
         return;
       } else if (requestMode === 'initialize') {
+        if (sessions.isFull()) {
+          // Expired sessions may still be waiting for the sweeper; reclaim them before turning the client away.
+          await sessions.sweep();
+        }
+        if (sessions.isFull()) {
+          logger.warn('Rejected MCP HTTP session: session limit reached', { maxSessions: sessionLimits.maxSessions, principal: principal?.subject });
+          res.set('Retry-After', String(Math.ceil(sessionLimits.sweepIntervalMs / 1000)));
+          sendJsonRpcError(res, 503, -32000, `Too many active MCP sessions (limit ${sessionLimits.maxSessions}); retry later or reuse an existing session`);
+          return;
+        }
         let server!: McpServer;
+        // POST replies stream as SSE rather than plain JSON so a tool call's progress notifications reach the client.
         const transport = new StreamableHTTPServerTransport({
-          enableJsonResponse: true,
           sessionIdGenerator: () => randomUUID(),
           allowedOrigins: allowOrigins ?? [],
           allowedHosts: allowHosts ?? [],
           enableDnsRebindingProtection,
           onsessioninitialized: (initializedSessionId) => {
             initializeSessionEstablished = true;
-            sessions.set(initializedSessionId, { server, transport });
+            sessions.touch(sessions.add(initializedSessionId, { server, transport, ...(principal ? { principal } : {}) }), req.body);
+            logger.info('MCP HTTP session initialized', { sessionId: initializedSessionId, principal: principal?.subject });
           },
           onsessionclosed: (closedSessionId) => {
-            const closedSession = sessions.get(closedSessionId);
-            if (closedSession?.transport === transport) {
-              sessions.delete(closedSessionId);
-            }
+            sessions.remove(closedSessionId, transport);
+            logger.info('MCP HTTP session closed by client', { sessionId: closedSessionId });
             void server.close().catch((error) => {
               logger.error('Failed to close MCP HTTP session server', { error, sessionId: closedSessionId });
             });
           },
         });
-        server = buildServer();
+        server = buildServer({ subscriptions });
         await server.connect(transport);
-        session = { server, transport };
+        session = { server, transport, ...(principal ? { principal } : {}) };
         res.on('close', () => {
           if (cleanupScheduled || initializeSessionEstablished) {
             return;
@@ -781,14 +2661,13 @@ export function createHttpApp() {
       } else {
         const server = buildServer();
         const transport = new StreamableHTTPServerTransport({
-          enableJsonResponse: true,
           sessionIdGenerator: undefined,
           allowedOrigins: allowOrigins ?? [],
           allowedHosts: allowHosts ?? [],
           enableDnsRebindingProtection,
         });
         await server.connect(transport);
-        session = { server, transport };
+        session = { server, transport, ...(principal ? { principal } : {}) };
         res.on('close', () => {
           if (cleanupScheduled) {
             return;
@@ -803,29 +2682,38 @@ export function createHttpApp() {
         });
       }
 
-      await session.transport.handleRequest(req, res, req.body);
+      // Tool calls made while handling this request use the caller's forwarded Core credentials.
+      const activeSession = session;
+      await runWithCoreCredentials(credentials, () => activeSession.transport.handleRequest(req, res, req.body));
     } catch (error) {
       logger.error('MCP HTTP request failed', { error, method: req.method, path: req.path });
       if (!res.headersSent) {
-        res.status(500).json({
-          jsonrpc: '2.0',
-          error: {
-            code: -32603,
-            message: error instanceof Error ? error.message : 'Internal server error',
-          },
-          id: null,
-        });
+        sendJsonRpcError(res, 500, -32603, error instanceof Error ? error.message : 'Internal server error');
       }
     }
   });
 
-  return { app, httpPort, allowOrigins, allowHosts };
+  return { app, httpPort, allowOrigins, allowHosts, sessions, subscriptions };
 }
 
 async function main() {
+  const config = configureFromCli();
+  if (config?.logLevel) {
+    setLogLevel(config.logLevel);
+  }
+  if (config) {
+    logger.info('Loaded OpsOrch MCP config', { profile: config.profile, coreURL: getCoreURL() });
+  }
+  assertCoreAuthConfig();
+  if (isWriteEnabled()) {
+    logger.warn('OpsOrch Core write tools are enabled; agents can create and update incidents');
+  }
+
   // stdio transport (default for CLI-spawned MCP clients)
   const stdioTransport = new StdioServerTransport();
-  const stdioServer = buildServer();
+  const stdioSubscriptions = new SubscriptionPoller(getSubscriptionLimits(), loadSubscriptionSnapshot);
+  stdioSubscriptions.start();
+  const stdioServer = buildServer({ subscriptions: stdioSubscriptions });
   await stdioServer.connect(stdioTransport);
   logger.info('OpsOrch MCP stdio transport ready');
 
@@ -22,7 +22,14 @@ function parseLogLevel(value: string | undefined): LogLevel {
   return 'info';
 }
 
-const currentLevel = parseLogLevel(process.env.OPSORCH_LOG_LEVEL);
+let currentLevel = parseLogLevel(process.env.OPSORCH_LOG_LEVEL);
+
+// OPSORCH_LOG_LEVEL always wins; a config file level only applies when the variable is unset.
+export function setLogLevel(level: LogLevel): void {
+  if (!process.env.OPSORCH_LOG_LEVEL) {
+    currentLevel = level;
+  }
+}
 
 function serializeMetadata(metadata: Metadata): string {
   if (!metadata || Object.keys(metadata).length === 0) {
@@ -65,5 +72,7 @@ export const logger = {
   info: (message: string, metadata?: Metadata) => log('info', message, metadata),
   warn: (message: string, metadata?: Metadata) => log('warn', message, metadata),
   error: (message: string, metadata?: Metadata) => log('error', message, metadata),
-  level: currentLevel,
+  get level(): LogLevel {
+    return currentLevel;
+  },
 };
@@ -0,0 +1,135 @@
+import { QuerySyntaxError } from './errors';
+
+export type LogFilter = {
+  field: string;
+  operator: string;
+  value: string;
+};
+
+export type LogExpression = {
+  search?: string;
+  filters?: LogFilter[];
+  severityIn?: string[];
+};
+
+// Longest first, so `>=` is not read as `>` followed by a value starting with `=`.
+const OPERATORS = ['!=', '>=', '<=', ':', '=', '>', '<'] as const;
+const OPERATOR_START = new Set([':', '=', '!', '>', '<']);
+const FIELD = /^[A-Za-z_][\w.-]*$/;
+
+export const LOG_QUERY_HELP =
+  'space-separated terms: field:value or field=value, field!=value, field>=500 (also >, <, <=), -field:value to exclude, severity:error,warn for a severity list, and bare words or "quoted phrases" for free-text search';
+
+function fail(q: string, column: number, problem: string): never {
+  throw new QuerySyntaxError(`q ${problem} at column ${column}:\n  ${q}\n  ${' '.repeat(column - 1)}^`, column);
+}
+
+/**
+ * Compiles the compact `q` syntax into a log expression: field terms become `filters`, `severity:` terms become
+ * `severityIn`, and everything else is joined into `search`. See LOG_QUERY_HELP for the grammar.
+ */
+export function parseLogQuery(q: string): LogExpression {
+  const search: string[] = [];
+  const filters: LogFilter[] = [];
+  const severities: string[] = [];
+  let i = 0;
+
+  const readQuoted = (): string => {
+    const open = i;
+    i++;
+    let text = '';
+    while (i < q.length && q[i] !== '"') {
+      // A backslash escapes the next character, so phrases can contain quotes.
+      if (q[i] === '\\' && i + 1 < q.length) {
+        i++;
+      }
+      text += q[i];
+      i++;
+    }
+    if (i >= q.length) {
+      fail(q, open + 1, 'has an unterminated quote');
+    }
+    i++;
+    return text;
+  };
+
+  while (i < q.length) {
+    if (/\s/.test(q[i]!)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const negated = q[i] === '-' && /[A-Za-z_]/.test(q[i + 1] ?? '');
+    if (negated) {
+      i++;
+    }
+    if (q[i] === '"') {
+      search.push(readQuoted());
+      continue;
+    }
+
+    let word = '';
+    while (i < q.length && !/\s/.test(q[i]!) && !OPERATOR_START.has(q[i]!) && q[i] !== '"') {
+      word += q[i];
+      i++;
+    }
+    if (i >= q.length || !OPERATOR_START.has(q[i]!)) {
+      if (negated) {
+        fail(q, start + 1, `can only negate field terms such as -${word}:value; quote the text to search for "-${word}"`);
+      }
+      search.push(word);
+      continue;
+    }
+
+    const fieldColumn = negated ? start + 2 : start + 1;
+    if (!FIELD.test(word)) {
+      fail(q, fieldColumn, word === '' ? 'is missing a field name before the operator' : `has an invalid field name "${word}"`);
+    }
+    const operator = OPERATORS.find((candidate) => q.startsWith(candidate, i));
+    if (!operator) {
+      fail(q, i + 1, `has an unknown operator; use one of ${OPERATORS.join(' ')}`);
+    }
+    i += operator.length;
+
+    const valueColumn = i + 1;
+    let value = '';
+    if (q[i] === '"') {
+      value = readQuoted();
+    } else {
+      while (i < q.length && !/\s/.test(q[i]!)) {
+        value += q[i];
+        i++;
+      }
+    }
+    if (value === '') {
+      fail(q, valueColumn, `is missing a value after ${word}${operator}`);
+    }
+
+    if (word.toLowerCase() === 'severity') {
+      if (negated || (operator !== ':' && operator !== '=')) {
+        fail(q, fieldColumn, 'only supports severity:level or severity:level1,level2 for severity');
+      }
+      const levels = value.split(',');
+      const empty = levels.findIndex((level) => level === '');
+      if (empty >= 0) {
+        fail(q, valueColumn + levels.slice(0, empty).join(',').length + (empty > 0 ? 1 : 0), 'has an empty severity in the list');
+      }
+      severities.push(...levels);
+      continue;
+    }
+    let normalized: string = operator === ':' ? '=' : operator;
+    if (negated) {
+      if (normalized !== '=') {
+        fail(q, start + 1, `cannot negate the ${operator} operator; use the opposite comparison instead`);
+      }
+      normalized = '!=';
+    }
+    filters.push({ field: word, operator: normalized, value });
+  }
+
+  return {
+    ...(search.length > 0 ? { search: search.join(' ') } : {}),
+    ...(filters.length > 0 ? { filters } : {}),
+    ...(severities.length > 0 ? { severityIn: [...new Set(severities)] } : {}),
+  };
+}
@@ -0,0 +1,73 @@
+export type ClusterableEntry = {
+  timestamp: string;
+  message: string;
+  severity?: string | undefined;
+};
+
+export type LogCluster = {
+  template: string;
+  count: number;
+  // Entry counts per severity; entries without one count as `unknown`.
+  severities: Record<string, number>;
+  firstSeen: string;
+  lastSeen: string;
+  samples: string[];
+};
+
+export type ClusterOrder = 'volume' | 'rarity';
+
+// Applied in order: specific shapes first, so a UUID is not half-eaten by the hex or number masks.
+const MASKS: [RegExp, string][] = [
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>'],
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, '<ts>'],
+  [/\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g, '<ip>'],
+  [/\b0x[0-9a-f]+\b/gi, '<hex>'],
+  [/\b(?=[0-9a-f]*[a-f])(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, '<hex>'],
+  // Identifiers such as req-8f3a2, user_1234, or INC-123: letters and digits joined by - or _.
+  [/\b(?=[\w-]*\d)(?=[\w-]*[a-z])[a-z0-9]+(?:[-_][a-z0-9]+)+\b/gi, '<id>'],
+  // Standalone numbers, including the number in units like 250ms; digits inside words such as http2 are kept.
+  [/(?<![a-z_])\d+(?:\.\d+)?/gi, '<num>'],
+];
+
+// Reduces a log message to its template by masking the tokens that vary between otherwise identical lines.
+export function maskMessage(message: string): string {
+  return MASKS.reduce((text, [pattern, token]) => text.replace(pattern, token), message).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Groups log entries by masked template. `volume` puts the noisiest templates first; `rarity` puts the least
+ * frequent first, which is where a novel message hiding in an error storm shows up. Ties go to the most recent.
+ */
+export function clusterLogs(entries: ClusterableEntry[], options: { order?: ClusterOrder | undefined; samples?: number | undefined } = {}): LogCluster[] {
+  const samples = options.samples ?? 3;
+  const clusters = new Map<string, LogCluster>();
+  for (const entry of entries) {
+    const template = maskMessage(entry.message);
+    const severity = entry.severity?.toLowerCase() || 'unknown';
+    const cluster = clusters.get(template);
+    if (!cluster) {
+      clusters.set(template, {
+        template,
+        count: 1,
+        severities: { [severity]: 1 },
+        firstSeen: entry.timestamp,
+        lastSeen: entry.timestamp,
+        samples: samples > 0 ? [entry.message] : [],
+      });
+      continue;
+    }
+    cluster.count++;
+    cluster.severities[severity] = (cluster.severities[severity] ?? 0) + 1;
+    if (Date.parse(entry.timestamp) < Date.parse(cluster.firstSeen)) {
+      cluster.firstSeen = entry.timestamp;
+    }
+    if (Date.parse(entry.timestamp) > Date.parse(cluster.lastSeen)) {
+      cluster.lastSeen = entry.timestamp;
+    }
+    if (cluster.samples.length < samples && !cluster.samples.includes(entry.message)) {
+      cluster.samples.push(entry.message);
+    }
+  }
+  const direction = options.order === 'rarity' ? 1 : -1;
+  return [...clusters.values()].sort((a, b) => direction * (a.count - b.count) || Date.parse(b.lastSeen) - Date.parse(a.lastSeen));
+}
@@ -0,0 +1,184 @@
+export type MetricPoint = {
+  timestamp: string;
+  value: number;
+};
+
+export type Spike = MetricPoint & {
+  // Robust z-score: distance from the median in units of the (scaled) median absolute deviation.
+  zScore: number;
+};
+
+export type ChangePoint = {
+  // First point of the new level.
+  timestamp: string;
+  before: number;
+  after: number;
+};
+
+export type Trend = {
+  slopePerHour: number;
+  direction: 'rising' | 'falling' | 'flat';
+};
+
+export type SeriesSummary = {
+  count: number;
+  start?: string;
+  end?: string;
+  min?: MetricPoint;
+  max?: MetricPoint;
+  mean?: number;
+  p50?: number;
+  p95?: number;
+  p99?: number;
+  last?: MetricPoint;
+  trend?: Trend;
+  spikes?: Spike[];
+  changePoints?: ChangePoint[];
+  sparkline?: string;
+};
+
+const SPIKE_Z = 3.5;
+const MAX_SPIKES = 10;
+const MAX_CHANGE_POINTS = 5;
+const MIN_SEGMENT = 5;
+// A level shift must move the mean by this many pooled standard deviations to count as a change point.
+const CHANGE_THRESHOLD = 2;
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+
+// Six significant digits keeps summaries readable without visibly changing any statistic.
+function round(value: number): number {
+  return Number(value.toPrecision(6));
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Linear interpolation between closest ranks, over values sorted ascending.
+function percentile(sorted: number[], p: number): number {
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (rank - lower);
+}
+
+// Least-squares slope in value units per hour; flat when the fitted change over the series is under 10% of its range.
+function trend(points: { at: number; value: number }[], range: number): Trend {
+  const hours = points.map((point) => (point.at - points[0]!.at) / 3_600_000);
+  const meanX = mean(hours);
+  const meanY = mean(points.map((point) => point.value));
+  const sxx = hours.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const slope = sxx === 0 ? 0 : hours.reduce((sum, x, i) => sum + (x - meanX) * (points[i]!.value - meanY), 0) / sxx;
+  const change = slope * (hours[hours.length - 1]! - hours[0]!);
+  const direction = range === 0 || Math.abs(change) < 0.1 * range ? 'flat' : change > 0 ? 'rising' : 'falling';
+  return { slopePerHour: round(slope), direction };
+}
+
+function findSpikes(points: MetricPoint[], sorted: number[]): Spike[] {
+  const median = percentile(sorted, 50);
+  const deviations = sorted.map((value) => Math.abs(value - median)).sort((a, b) => a - b);
+  // 1.4826 * MAD estimates the standard deviation; fall back to the mean absolute deviation when most points are equal.
+  const scale = 1.4826 * percentile(deviations, 50) || 1.2533 * mean(deviations);
+  if (scale === 0) {
+    return [];
+  }
+  return points
+    .map((point) => ({ ...point, zScore: round((point.value - median) / scale) }))
+    .filter((point) => Math.abs(point.zScore) > SPIKE_Z)
+    .sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore))
+    .slice(0, MAX_SPIKES)
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
+
+// Binary segmentation: split where the means on either side differ most, then recurse into both halves.
+// Prefix sums keep each pass linear, so day-long series at fine steps stay cheap.
+function findChangePoints(values: number[], offset = 0, found: number[] = []): number[] {
+  const n = values.length;
+  if (n < 2 * MIN_SEGMENT || found.length >= MAX_CHANGE_POINTS) {
+    return found;
+  }
+  const sums = [0];
+  const squares = [0];
+  values.forEach((value, i) => {
+    sums.push(sums[i]! + value);
+    squares.push(squares[i]! + value * value);
+  });
+  let best: { index: number; score: number } | undefined;
+  for (let i = MIN_SEGMENT; i <= n - MIN_SEGMENT; i++) {
+    const leftMean = sums[i]! / i;
+    const rightMean = (sums[n]! - sums[i]!) / (n - i);
+    // Within-segment sum of squared deviations on both sides, pooled over the whole window.
+    const spread = squares[n]! - i * leftMean ** 2 - (n - i) * rightMean ** 2;
+    const pooled = Math.sqrt(Math.max(0, spread) / n);
+    const shift = Math.abs(leftMean - rightMean);
+    const score = pooled < 1e-12 ? (shift > 0 ? Infinity : 0) : shift / pooled;
+    if (!best || score > best.score) {
+      best = { index: i, score };
+    }
+  }
+  if (!best || best.score < CHANGE_THRESHOLD) {
+    return found;
+  }
+  found.push(offset + best.index);
+  findChangePoints(values.slice(0, best.index), offset, found);
+  findChangePoints(values.slice(best.index), offset + best.index, found);
+  return found;
+}
+
+// Downsamples to `width` buckets by mean and maps each bucket onto eight block heights.
+export function sparkline(values: number[], width: number): string {
+  if (values.length === 0) {
+    return '';
+  }
+  const buckets = Math.min(width, values.length);
+  const means = Array.from({ length: buckets }, (_, i) =>
+    mean(values.slice(Math.floor((i * values.length) / buckets), Math.floor(((i + 1) * values.length) / buckets)))
+  );
+  const low = Math.min(...means);
+  const high = Math.max(...means);
+  return means.map((value) => SPARK_CHARS[high === low ? 0 : Math.round(((value - low) / (high - low)) * (SPARK_CHARS.length - 1))]).join('');
+}
+
+/**
+ * Reduces a metric series to the statistics an agent needs to reason about it: distribution, last value, trend,
+ * robust-z spikes, and mean-shift change points. Points are ordered by timestamp first; non-finite values are dropped.
+ */
+export function summarizeSeries(points: MetricPoint[], options: { sparklineWidth?: number | undefined } = {}): SeriesSummary {
+  const ordered = points
+    .map((point) => ({ ...point, at: Date.parse(point.timestamp) }))
+    .filter((point) => Number.isFinite(point.value) && !Number.isNaN(point.at))
+    .sort((a, b) => a.at - b.at);
+  if (ordered.length === 0) {
+    return { count: 0 };
+  }
+
+  const values = ordered.map((point) => point.value);
+  const sorted = [...values].sort((a, b) => a - b);
+  const pick = (point: (typeof ordered)[number]): MetricPoint => ({ timestamp: point.timestamp, value: point.value });
+  const min = ordered.reduce((low, point) => (point.value < low.value ? point : low));
+  const max = ordered.reduce((high, point) => (point.value > high.value ? point : high));
+  const changePoints = findChangePoints(values)
+    .sort((a, b) => a - b)
+    .map((index, i, all) => ({
+      timestamp: ordered[index]!.timestamp,
+      before: round(mean(values.slice(all[i - 1] ?? 0, index))),
+      after: round(mean(values.slice(index, all[i + 1] ?? values.length))),
+    }));
+
+  return {
+    count: ordered.length,
+    start: ordered[0]!.timestamp,
+    end: ordered[ordered.length - 1]!.timestamp,
+    min: pick(min),
+    max: pick(max),
+    mean: round(mean(values)),
+    p50: round(percentile(sorted, 50)),
+    p95: round(percentile(sorted, 95)),
+    p99: round(percentile(sorted, 99)),
+    last: pick(ordered[ordered.length - 1]!),
+    trend: trend(ordered, max.value - min.value),
+    spikes: findSpikes(ordered.map(pick), sorted),
+    changePoints,
+    ...(options.sparklineWidth ? { sparkline: sparkline(values, options.sparklineWidth) } : {}),
+  };
+}
@@ -0,0 +1,101 @@
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { ResponseCache } from './cache';
+import { fingerprint } from './canonicalize';
+import { getActiveConfig } from './config';
+import { getCoreToken } from './identity';
+
+// Mutation tools are only registered when writes are switched on; OPSORCH_ENABLE_WRITES wins over the config file.
+export function isWriteEnabled(): boolean {
+  const fromEnv = process.env.OPSORCH_ENABLE_WRITES?.trim().toLowerCase();
+  if (fromEnv) {
+    return fromEnv === '1' || fromEnv === 'true';
+  }
+  return getActiveConfig()?.writes?.enabled === true;
+}
+
+export type Caller = {
+  subject: string;
+  type: string;
+};
+
+// Callers are identified by their authenticated HTTP principal; stdio and unauthenticated HTTP calls have none.
+export function describeCaller(authInfo: AuthInfo | undefined): Caller {
+  if (!authInfo) {
+    return { subject: 'anonymous', type: 'unauthenticated' };
+  }
+  const type = authInfo.extra?.principalType;
+  return { subject: authInfo.clientId, type: typeof type === 'string' ? type : 'unknown' };
+}
+
+export type PreviewRequest = {
+  method: 'POST' | 'PATCH';
+  url: string;
+  headers: Record<string, string>;
+  body?: Record<string, unknown>;
+};
+
+export type MutationPreview = {
+  dryRun: true;
+  request: PreviewRequest;
+  // Requests that would follow once the first succeeds, such as the incident timeline cross-link.
+  followUps?: PreviewRequest[];
+};
+
+// The request coreRequest would send, with the credential redacted so previews are safe to show and log.
+export function previewMutation(
+  method: 'POST' | 'PATCH',
+  url: string,
+  body: Record<string, unknown> | undefined,
+  hasToken: boolean,
+  idempotencyKey?: string
+): MutationPreview {
+  return {
+    dryRun: true,
+    request: {
+      method,
+      url,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(hasToken ? { Authorization: 'Bearer <redacted>' } : {}),
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+      },
+      ...(body !== undefined ? { body } : {}),
+    },
+  };
+}
+
+const EXPLICIT_KEY_TTL_MS = 24 * 60 * 60_000;
+const DERIVED_KEY_TTL_MS = 10 * 60_000;
+
+// Completed creates by idempotency key, so a repeated agent step gets the original result instead of a duplicate.
+export const idempotentResults = new ResponseCache(1000);
+
+export type IdempotencyScope = {
+  // Sent to Core as the Idempotency-Key header.
+  key: string;
+  // Local replay-cache key, partitioned by tool, caller, Core credential, and origin so keys never collide across them.
+  cacheKey: string;
+  ttlMs: number;
+};
+
+/**
+ * Without an explicit key the arguments themselves are the key: an identical call from the same caller within
+ * ten minutes is treated as a retry. Pass a fresh `idempotencyKey` to deliberately repeat an action.
+ *
+ * Every stdio and unauthenticated HTTP caller is `anonymous`, so the replay cache is also keyed by the Core token
+ * and by the federation `origin` the call is routed to: the same key under another token or Core is a new request.
+ */
+export function idempotencyScope(
+  tool: string,
+  caller: Caller,
+  idempotencyKey: string | undefined,
+  args: unknown,
+  origin: string | undefined
+): IdempotencyScope {
+  const key = idempotencyKey ?? `opsorch-mcp-${fingerprint({ tool, caller: caller.subject, args }, 32)}`;
+  return {
+    key,
+    cacheKey: `${tool} ${caller.subject} ${fingerprint(getCoreToken() ?? '')} ${origin ?? ''} ${key}`,
+    ttlMs: idempotencyKey ? EXPLICIT_KEY_TTL_MS : DERIVED_KEY_TTL_MS,
+  };
+}
@@ -0,0 +1,279 @@
+import { ToolInputError } from './errors';
+
+export type StepStatus = 'pending' | 'started' | 'completed' | 'skipped';
+
+export type StepTransition = Exclude<StepStatus, 'pending'>;
+
+export type PlanStep = {
+  id: string;
+  title?: string | undefined;
+  dependsOn?: string[] | undefined;
+};
+
+export type RunStep = {
+  stepId: string;
+  status: string;
+  [key: string]: unknown;
+};
+
+export type BlockedStep = {
+  stepId: string;
+  waitingOn: string[];
+};
+
+const DONE: ReadonlySet<string> = new Set(['completed', 'skipped']);
+
+function statusOf(runSteps: RunStep[], stepId: string): string {
+  return runSteps.find((step) => step.stepId === stepId)?.status ?? 'pending';
+}
+
+// Prerequisites that are neither completed nor skipped; a step may only start or complete once this is empty.
+function pendingPrerequisites(step: PlanStep, runSteps: RunStep[]): string[] {
+  return (step.dependsOn ?? []).filter((dependency) => !DONE.has(statusOf(runSteps, dependency)));
+}
+
+/**
+ * Lines a run's step records up with the plan, so steps Core has not recorded yet show up as `pending`
+ * and the caller sees every step in plan order.
+ */
+export function mergeRunSteps(steps: PlanStep[], runSteps: RunStep[]): RunStep[] {
+  return steps.map((step) => runSteps.find((runStep) => runStep.stepId === step.id) ?? { stepId: step.id, status: 'pending' });
+}
+
+// Pending steps whose prerequisites are all done, in plan order.
+export function actionableSteps(steps: PlanStep[], runSteps: RunStep[]): string[] {
+  return steps.filter((step) => statusOf(runSteps, step.id) === 'pending' && pendingPrerequisites(step, runSteps).length === 0).map((step) => step.id);
+}
+
+export function blockedSteps(steps: PlanStep[], runSteps: RunStep[]): BlockedStep[] {
+  return steps.flatMap((step) => {
+    if (statusOf(runSteps, step.id) !== 'pending') {
+      return [];
+    }
+    const waitingOn = pendingPrerequisites(step, runSteps);
+    return waitingOn.length > 0 ? [{ stepId: step.id, waitingOn }] : [];
+  });
+}
+
+/**
+ * Rejects step changes that break the plan: unknown steps, changes to finished steps, and starting or completing
+ * a step before everything in its `dependsOn` is completed or skipped. Skipping is allowed at any time.
+ */
+export function assertStepTransition(steps: PlanStep[], runSteps: RunStep[], stepId: string, next: StepTransition): void {
+  const step = steps.find((candidate) => candidate.id === stepId);
+  if (!step) {
+    throw new ToolInputError(`step ${stepId} is not part of this plan; steps are ${steps.map((s) => s.id).join(', ')}`);
+  }
+  const current = statusOf(runSteps, stepId);
+  if (DONE.has(current)) {
+    throw new ToolInputError(`step ${stepId} is already ${current}`);
+  }
+  if (next === 'started' && current === 'started') {
+    throw new ToolInputError(`step ${stepId} is already started`);
+  }
+  if (next !== 'skipped') {
+    const waitingOn = pendingPrerequisites(step, runSteps);
+    if (waitingOn.length > 0) {
+      throw new ToolInputError(`step ${stepId} cannot be ${next} before its prerequisites are completed or skipped: ${waitingOn.join(', ')}`);
+    }
+  }
+}
+
+export type PlanIssue = {
+  type: 'duplicate_step' | 'missing_reference' | 'cycle' | 'unreachable';
+  stepId: string;
+  message: string;
+  // For cycles, the steps around the loop; for unreachable steps, the broken steps they wait on.
+  steps?: string[];
+};
+
+export type PlanAnalysis = {
+  valid: boolean;
+  issues: PlanIssue[];
+  // Execution order grouped into stages; steps within a stage have no dependencies on each other.
+  stages: string[][];
+  order: string[];
+  mermaid: string;
+  outline: string;
+};
+
+// Strongly connected components with more than one step, or a step that depends on itself, are cycles.
+function findCycles(ids: string[], dependsOn: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (id: string): void => {
+    index.set(id, counter);
+    low.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+    for (const next of dependsOn.get(id) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        low.set(id, Math.min(low.get(id)!, low.get(next)!));
+      } else if (onStack.has(next)) {
+        low.set(id, Math.min(low.get(id)!, index.get(next)!));
+      }
+    }
+    if (low.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1 || (dependsOn.get(id) ?? []).includes(id)) {
+        cycles.push(ids.filter((candidate) => component.includes(candidate)));
+      }
+    }
+  };
+
+  for (const id of ids) {
+    if (!index.has(id)) {
+      visit(id);
+    }
+  }
+  return cycles;
+}
+
+function mermaidLabel(step: PlanStep): string {
+  const text = step.title && step.title !== step.id ? `${step.id}: ${step.title}` : step.id;
+  return text.replace(/"/g, '#quot;');
+}
+
+function renderMermaid(steps: PlanStep[], known: Set<string>, cycleSteps: Set<string>, brokenSteps: Set<string>): string {
+  const nodeIds = new Map(steps.map((step, i) => [step.id, `s${i}`]));
+  const lines = ['flowchart TD'];
+  for (const step of steps) {
+    lines.push(`  ${nodeIds.get(step.id)}["${mermaidLabel(step)}"]`);
+  }
+  const missing = new Map<string, string>();
+  for (const step of steps) {
+    for (const dependency of step.dependsOn ?? []) {
+      if (known.has(dependency)) {
+        lines.push(`  ${nodeIds.get(dependency)} --> ${nodeIds.get(step.id)}`);
+        continue;
+      }
+      if (!missing.has(dependency)) {
+        missing.set(dependency, `m${missing.size}`);
+        lines.push(`  ${missing.get(dependency)}["missing: ${mermaidLabel({ id: dependency })}"]:::missing`);
+      }
+      lines.push(`  ${missing.get(dependency)} -.-> ${nodeIds.get(step.id)}`);
+    }
+  }
+  if (missing.size > 0) {
+    lines.push('  classDef missing stroke-dasharray: 5 5,stroke:#d33');
+  }
+  if (cycleSteps.size > 0) {
+    lines.push('  classDef cycle stroke:#d33,stroke-width:2px');
+    lines.push(`  class ${[...cycleSteps].map((id) => nodeIds.get(id)).join(',')} cycle`);
+  }
+  if (brokenSteps.size > 0) {
+    lines.push('  classDef blocked fill:#eee,color:#888');
+    lines.push(`  class ${[...brokenSteps].map((id) => nodeIds.get(id)).join(',')} blocked`);
+  }
+  return lines.join('\n');
+}
+
+function renderOutline(steps: PlanStep[], stages: string[][], issues: PlanIssue[]): string {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const describe = (id: string): string => {
+    const step = byId.get(id);
+    const title = step?.title && step.title !== id ? `: ${step.title}` : '';
+    const after = step?.dependsOn && step.dependsOn.length > 0 ? ` (after ${step.dependsOn.join(', ')})` : '';
+    return `${id}${title}${after}`;
+  };
+  const lines = stages.flatMap((stage, i) => [
+    `Stage ${i + 1}${stage.length > 1 ? ' (parallel)' : ''}`,
+    ...stage.map((id) => `  - ${describe(id)}`),
+  ]);
+  const stuck = [...new Set(issues.filter((issue) => issue.type !== 'duplicate_step').map((issue) => issue.stepId))];
+  if (stuck.length > 0) {
+    lines.push('Cannot run');
+    for (const id of stuck) {
+      lines.push(`  - ${describe(id)}`);
+      for (const issue of issues.filter((candidate) => candidate.stepId === id)) {
+        lines.push(`      ${issue.message}`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Checks a plan's `dependsOn` graph and lays it out for execution. Steps that reference unknown steps, sit on a
+ * cycle, or wait (directly or not) on such steps can never become actionable and are reported instead of staged.
+ */
+export function analyzePlan(steps: PlanStep[]): PlanAnalysis {
+  const issues: PlanIssue[] = [];
+  const seen = new Set<string>();
+  for (const step of steps) {
+    if (seen.has(step.id)) {
+      issues.push({ type: 'duplicate_step', stepId: step.id, message: `step ID ${step.id} is used by more than one step` });
+    }
+    seen.add(step.id);
+  }
+  const ids = [...seen];
+  const dependsOn = new Map<string, string[]>();
+  for (const step of steps) {
+    dependsOn.set(step.id, [...new Set([...(dependsOn.get(step.id) ?? []), ...(step.dependsOn ?? [])])]);
+  }
+
+  const broken = new Set<string>();
+  for (const id of ids) {
+    const missing = (dependsOn.get(id) ?? []).filter((dependency) => !seen.has(dependency));
+    if (missing.length > 0) {
+      broken.add(id);
+      issues.push({ type: 'missing_reference', stepId: id, message: `depends on unknown step(s) ${missing.join(', ')}`, steps: missing });
+    }
+  }
+  const known = new Map([...dependsOn].map(([id, deps]) => [id, deps.filter((dependency) => seen.has(dependency))]));
+  const cycleSteps = new Set<string>();
+  for (const cycle of findCycles(ids, known)) {
+    for (const id of cycle) {
+      cycleSteps.add(id);
+      broken.add(id);
+      issues.push({ type: 'cycle', stepId: id, message: `is part of a dependency cycle among ${cycle.join(', ')}`, steps: cycle });
+    }
+  }
+
+  // Kahn's algorithm, one stage per round; broken steps never become ready, and neither does anything behind them.
+  const stages: string[][] = [];
+  const placed = new Set<string>();
+  let ready = ids.filter((id) => !broken.has(id) && (known.get(id) ?? []).length === 0);
+  while (ready.length > 0) {
+    stages.push(ready);
+    ready.forEach((id) => placed.add(id));
+    ready = ids.filter((id) => !placed.has(id) && !broken.has(id) && (known.get(id) ?? []).every((dependency) => placed.has(dependency)));
+  }
+
+  const blocked = new Set<string>();
+  for (const id of ids) {
+    if (placed.has(id) || broken.has(id)) {
+      continue;
+    }
+    blocked.add(id);
+    const waitingOn = (known.get(id) ?? []).filter((dependency) => !placed.has(dependency));
+    issues.push({ type: 'unreachable', stepId: id, message: `can never run because it waits on ${waitingOn.join(', ')}`, steps: waitingOn });
+  }
+
+  return {
+    valid: issues.length === 0,
+    issues,
+    stages,
+    order: stages.flat(),
+    mermaid: renderMermaid(
+      steps.filter((step, i) => steps.findIndex((candidate) => candidate.id === step.id) === i),
+      seen,
+      cycleSteps,
+      new Set([...broken, ...blocked].filter((id) => !cycleSteps.has(id)))
+    ),
+    outline: renderOutline(steps, stages, issues),
+  };
+}
@@ -0,0 +1,266 @@
+import { fingerprint } from './canonicalize';
+import { getActiveConfig, getActiveCore } from './config';
+import { ToolInputError } from './errors';
+import { logger } from './logger';
+import { reportProgress } from './progress';
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+const FETCH_ALL_PAGE_SIZE = 200;
+
+export function getFetchAllCap(): number {
+  const fallback = getActiveConfig()?.pagination?.fetchAllMaxItems ?? 1000;
+  const parsed = Number.parseInt(process.env.OPSORCH_FETCH_ALL_MAX_ITEMS ?? '', 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+}
+
+// Set when Core skips rows for an `offset` in the query body, so emulated pages need not re-read earlier rows.
+export function coreSupportsOffset(): boolean {
+  const fromEnv = process.env.OPSORCH_CORE_PAGINATION_OFFSET?.trim().toLowerCase();
+  return fromEnv ? fromEnv === '1' || fromEnv === 'true' : getActiveCore()?.pagination?.offset === true;
+}
+
+// Core-native cursors are wrapped so they stay tied to the query that produced them; emulated pages carry an offset.
+type CursorState = { v: 1; q: string; c: string } | { v: 1; q: string; o: number };
+
+export function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, queryFingerprint: string): CursorState {
+  let state: unknown;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ToolInputError('cursor is not a valid pagination cursor; pass nextCursor from a previous result unchanged');
+  }
+  if (typeof state !== 'object' || state === null || (state as CursorState).v !== 1) {
+    throw new ToolInputError('cursor is not a valid pagination cursor; pass nextCursor from a previous result unchanged');
+  }
+  if ((state as CursorState).q !== queryFingerprint) {
+    throw new ToolInputError('cursor was issued for a different query; repeat the original filters or drop the cursor to start over');
+  }
+  return state as CursorState;
+}
+
+// Core items are untyped JSON until a tool validates them, so orderings read fields defensively.
+export type ItemOrder = (a: unknown, b: unknown) => number;
+
+export type PageSpec = {
+  // Property that holds the item list in both the Core response and the tool output (e.g. `incidents`, `entries`).
+  key: string;
+  // Stable ordering applied when pagination is emulated, so offsets mean the same thing on every request.
+  order: ItemOrder;
+};
+
+export type PaginatedInput = Record<string, unknown> & {
+  limit?: number | undefined;
+  cursor?: string | undefined;
+  fetchAll?: boolean | undefined;
+};
+
+// Rows an emulated walk has already read, in Core's order, and the `limit` they were asked for.
+type Prefix = {
+  rows: unknown[];
+  limit: number;
+  extras: Record<string, unknown>;
+};
+
+type Page = {
+  items: unknown[];
+  extras: Record<string, unknown>;
+  next: CursorState | undefined;
+  // Handed to the next fetchPage of the same walk so it can reuse the rows instead of asking Core again.
+  prefix?: Prefix;
+};
+
+function fieldOf(item: unknown, field: string): unknown {
+  return typeof item === 'object' && item !== null ? (item as Record<string, unknown>)[field] : undefined;
+}
+
+function timestampOf(item: unknown, field: string): number {
+  return Date.parse(String(fieldOf(item, field)));
+}
+
+export function byNewest(field: string): ItemOrder {
+  return (a, b) => {
+    const delta = (timestampOf(b, field) || 0) - (timestampOf(a, field) || 0);
+    return delta !== 0 ? delta : String(fieldOf(a, 'id') ?? '').localeCompare(String(fieldOf(b, 'id') ?? ''));
+  };
+}
+
+export function byField(field: string): ItemOrder {
+  return (a, b) => String(fieldOf(a, field) ?? '').localeCompare(String(fieldOf(b, field) ?? ''));
+}
+
+function splitResponse(data: unknown, key: string): { items: unknown[]; extras: Record<string, unknown>; nativeCursor: string | null | undefined } {
+  if (Array.isArray(data)) {
+    return { items: data, extras: {}, nativeCursor: undefined };
+  }
+  if (data !== null && typeof data === 'object') {
+    const { [key]: keyed, items, nextCursor, hasMore: _hasMore, ...extras } = data as Record<string, unknown>;
+    const list = Array.isArray(keyed) ? keyed : Array.isArray(items) ? items : [];
+    // Core signals cursor support by including `nextCursor` (null on the last page).
+    const nativeCursor = nextCursor === undefined ? undefined : typeof nextCursor === 'string' && nextCursor ? nextCursor : null;
+    return { items: list, extras, nativeCursor };
+  }
+  return { items: [], extras: {}, nativeCursor: undefined };
+}
+
+async function fetchPage(
+  request: (body: Record<string, unknown>) => Promise<unknown>,
+  spec: PageSpec,
+  query: Record<string, unknown>,
+  queryFingerprint: string,
+  state: CursorState | undefined,
+  pageSize: number,
+  walk?: { prefix: Prefix | undefined; cap: number }
+): Promise<Page> {
+  if (state && 'c' in state) {
+    const { items, extras, nativeCursor } = splitResponse(await request({ ...query, limit: pageSize, cursor: state.c }), spec.key);
+    return { items, extras, next: nativeCursor ? { v: 1, q: queryFingerprint, c: nativeCursor } : undefined };
+  }
+
+  const offset = state?.o ?? 0;
+  const end = offset + pageSize;
+  if (coreSupportsOffset()) {
+    // Core skips to the offset itself; one extra row tells whether another page follows.
+    const { items, extras } = splitResponse(await request({ ...query, offset, limit: pageSize + 1 }), spec.key);
+    return {
+      items: items.slice(0, pageSize).sort(spec.order),
+      extras,
+      next: items.length > pageSize ? { v: 1, q: queryFingerprint, o: end } : undefined,
+    };
+  }
+
+  // Rows read earlier in the walk are enough once they reach past this page, or once Core returned fewer than asked.
+  let prefix = walk?.prefix;
+  if (!prefix || (prefix.rows.length <= end && prefix.rows.length >= prefix.limit)) {
+    // Without a cursor we do not yet know whether Core paginates, so the first request asks for exactly one page.
+    // Later requests ask for one extra row to find out whether another page follows; a walk also at least doubles
+    // each request (up to its cap), so it reads every row a bounded number of times instead of once per page.
+    const limit = offset === 0 ? pageSize : Math.max(end + 1, walk?.prefix ? Math.min(walk.prefix.limit * 2, walk.cap + 1) : 0);
+    const { items, extras, nativeCursor } = splitResponse(await request({ ...query, limit }), spec.key);
+    if (offset === 0 && nativeCursor !== undefined) {
+      return { items, extras, next: nativeCursor ? { v: 1, q: queryFingerprint, c: nativeCursor } : undefined };
+    }
+    prefix = { rows: items, limit, extras };
+  }
+
+  // Offsets count rows in Core's own order: each request returns a longer prefix of that order, so slicing it never
+  // repeats or skips a row. Sorting the whole prefix first would shift rows between pages whenever the orders differ.
+  // When Core filled the whole request there may be more rows than it returned.
+  const hasMore = prefix.rows.length > end || prefix.rows.length >= prefix.limit;
+  return {
+    items: prefix.rows.slice(offset, end).sort(spec.order),
+    extras: prefix.extras,
+    next: hasMore ? { v: 1, q: queryFingerprint, o: end } : undefined,
+    prefix,
+  };
+}
+
+/**
+ * Runs a Core `/…/query` call with cursor pagination, using Core's own cursors when it returns them and
+ * emulating offset pages over Core's result order when it does not; each emulated page is sorted by `spec.order`. `fetchAll` walks pages up to the configured cap.
+ */
+export async function paginateQuery(
+  request: (body: Record<string, unknown>) => Promise<unknown>,
+  spec: PageSpec,
+  input: PaginatedInput
+): Promise<Record<string, unknown>> {
+  const { cursor, fetchAll, limit, ...query } = input;
+  const queryFingerprint = fingerprint({ key: spec.key, query });
+  let state = cursor ? decodeCursor(cursor, queryFingerprint) : undefined;
+
+  if (!fetchAll) {
+    const page = await fetchPage(request, spec, query, queryFingerprint, state, limit ?? DEFAULT_PAGE_SIZE);
+    return {
+      ...page.extras,
+      [spec.key]: page.items,
+      hasMore: page.next !== undefined,
+      ...(page.next ? { nextCursor: encodeCursor(page.next) } : {}),
+    };
+  }
+
+  const cap = getFetchAllCap();
+  const collected: unknown[] = [];
+  let extras: Record<string, unknown> = {};
+  let next: CursorState | undefined;
+  let pages = 0;
+
+  let prefix: Prefix | undefined;
+
+  do {
+    const page = await fetchPage(request, spec, query, queryFingerprint, state, Math.min(limit ?? FETCH_ALL_PAGE_SIZE, cap - collected.length), { prefix, cap });
+    prefix = page.prefix;
+    pages++;
+    collected.push(...page.items);
+    reportProgress(`Fetched page ${pages} of ${spec.key} (${collected.length} so far)`);
+    extras = { ...extras, ...page.extras };
+    next = page.next;
+    state = next;
+    if (page.items.length === 0) {
+      break;
+    }
+  } while (next && collected.length < cap);
+
+  if (next) {
+    logger.warn('fetchAll stopped at the item cap', { key: spec.key, cap, pages });
+  }
+
+  return {
+    ...extras,
+    [spec.key]: collected,
+    hasMore: next !== undefined,
+    ...(next ? { nextCursor: encodeCursor(next) } : {}),
+  };
+}
+
+export type WindowedItems = {
+  items: unknown[];
+  // The walk stopped before reaching the window start, so the window may hold items that were not returned.
+  hasMore: boolean;
+};
+
+/**
+ * Collects up to `limit` items whose `field` falls in [start, end] from a newest-first query that Core cannot bound
+ * by time, walking pages until they reach items older than `start`. The walk scans at most the fetchAll cap;
+ * items without a parseable timestamp are kept.
+ */
+export async function collectWindow(
+  request: (body: Record<string, unknown>) => Promise<unknown>,
+  spec: PageSpec,
+  query: Record<string, unknown>,
+  window: { field: string; start: number; end: number; limit: number }
+): Promise<WindowedItems> {
+  const cap = getFetchAllCap();
+  const queryFingerprint = fingerprint({ key: spec.key, query });
+  const collected: unknown[] = [];
+  let scanned = 0;
+  let state: CursorState | undefined;
+  let prefix: Prefix | undefined;
+
+  for (;;) {
+    const page = await fetchPage(request, spec, query, queryFingerprint, state, window.limit, { prefix, cap });
+    const { items } = page;
+    prefix = page.prefix;
+    scanned += items.length;
+    let reachedStart = false;
+    for (const item of items) {
+      const at = timestampOf(item, window.field);
+      reachedStart ||= at < window.start;
+      if (Number.isNaN(at) || (at >= window.start && at <= window.end)) {
+        collected.push(item);
+      }
+    }
+    state = page.next;
+    // One match past the limit proves the window holds more than we return.
+    if (reachedStart || !state || items.length === 0 || collected.length > window.limit || scanned >= cap) {
+      const hasMore = collected.length > window.limit || (!reachedStart && state !== undefined && items.length > 0);
+      if (hasMore && scanned >= cap) {
+        logger.warn('Window walk stopped at the item cap', { key: spec.key, cap, scanned });
+      }
+      return { items: collected.sort(spec.order).slice(0, window.limit), hasMore };
+    }
+  }
+}
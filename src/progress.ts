@@ -0,0 +1,39 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { logger } from './logger';
+
+// Delivers one `notifications/progress` for the current tool call; `progress` increases by one per report.
+export type ProgressSender = (progress: number, message: string) => Promise<void>;
+
+type ToolCall = {
+  signal: AbortSignal | undefined;
+  report: ((message: string) => void) | undefined;
+};
+
+const toolCalls = new AsyncLocalStorage<ToolCall>();
+
+/**
+ * Runs a tool handler with the client's abort signal and progress channel in scope, so Core calls, retries,
+ * pagination, and federated fan-out deep inside it can honour cancellation and report progress.
+ */
+export function runWithToolCall<T>(signal: AbortSignal | undefined, send: ProgressSender | undefined, fn: () => T): T {
+  let progress = 0;
+  const report = send
+    ? (message: string) => {
+        progress++;
+        void send(progress, message).catch((error) => {
+          logger.debug('Failed to send progress notification', { error, message });
+        });
+      }
+    : undefined;
+  return toolCalls.run({ signal, report }, fn);
+}
+
+// Set when the MCP client can cancel the current tool call.
+export function getCallerSignal(): AbortSignal | undefined {
+  return toolCalls.getStore()?.signal;
+}
+
+// A no-op unless the client sent a progressToken with the tool call.
+export function reportProgress(message: string): void {
+  toolCalls.getStore()?.report?.(message);
+}
@@ -0,0 +1,116 @@
+export type PromptContext = {
+  label: string;
+  // opsorch:// resource URI for the same data, so clients can re-read it later.
+  uri?: string;
+} & ({ data: unknown } | { error: string });
+
+export type PromptMessage = {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+};
+
+export type PromptResult = {
+  description: string;
+  messages: PromptMessage[];
+};
+
+type PromptOptions = {
+  writesEnabled: boolean;
+};
+
+function renderContext(sections: PromptContext[]): string {
+  return sections
+    .map((section) => {
+      const heading = `## ${section.label}${section.uri ? ` (${section.uri})` : ''}`;
+      return 'error' in section ? `${heading}\nUnavailable: ${section.error}` : `${heading}\n\`\`\`json\n${JSON.stringify(section.data, null, 2)}\n\`\`\``;
+    })
+    .join('\n\n');
+}
+
+function numbered(steps: string[]): string {
+  return steps.map((step, i) => `${i + 1}. ${step}`).join('\n');
+}
+
+// Instructions go first and the pre-fetched data second, so the data never reads as part of the task.
+function promptResult(description: string, instructions: string, sections: PromptContext[]): PromptResult {
+  return {
+    description,
+    messages: [
+      { role: 'user', content: { type: 'text', text: instructions } },
+      { role: 'user', content: { type: 'text', text: `Data fetched from OpsOrch Core just now:\n\n${renderContext(sections)}` } },
+    ],
+  };
+}
+
+function writeGuidance(writesEnabled: boolean, action: string): string {
+  return writesEnabled ? action : 'Write tools are disabled on this server: do not try to change incidents or tickets; give the human the text to apply instead.';
+}
+
+export function triageIncidentPrompt(id: string, sections: PromptContext[], options: PromptOptions): PromptResult {
+  const instructions = [
+    `You are triaging incident ${id}. The incident, its timeline, and recent alerts for its service are attached below.`,
+    '',
+    numbered([
+      'Restate the impact in one or two sentences: what is broken, for whom, since when (UTC).',
+      `Call \`investigate-incident\` with id "${id}" for the alerts, deployments, logs, and metrics around the incident start.`,
+      `Call \`correlate-deployments\` with incidentId "${id}" and treat its top-ranked releases as hypotheses, citing their scoring reasons.`,
+      `Call \`cluster-logs\` with start "incident:${id}-30m", q "severity:error", and order "rarity" to find new error messages; use \`summarize-metrics\` over the same range for the key service metrics.`,
+      'Look for an existing runbook with `query-orchestration-plans` and check it with `analyze-orchestration-plan` before suggesting steps from it.',
+      'Report: current impact, the most likely cause with the evidence for and against it, and the next two or three actions in priority order.',
+      writeGuidance(options.writesEnabled, `Once the human agrees, record the findings on the incident with \`append-incident-timeline\` (kind "note").`),
+    ]),
+    '',
+    'Say explicitly when evidence is missing or a section below was unavailable instead of guessing.',
+  ].join('\n');
+  return promptResult(`Triage incident ${id}`, instructions, sections);
+}
+
+export function draftStatusUpdatePrompt(id: string, audience: 'internal' | 'external', sections: PromptContext[], options: PromptOptions): PromptResult {
+  const audienceRules =
+    audience === 'external'
+      ? 'The audience is customers: describe user-visible impact only, in plain language, with no internal service names, people, or unconfirmed causes.'
+      : 'The audience is internal stakeholders: name the affected services and teams, and say which causes are confirmed and which are still suspected.';
+  const instructions = [
+    `Draft a status update for incident ${id}. The incident and its timeline are attached below.`,
+    '',
+    audienceRules,
+    '',
+    numbered([
+      'Check for newer timeline entries with `get-incident-timeline` if the attached timeline looks stale.',
+      'Write the update with: current status, impact, what is being done, and when the next update will come.',
+      'Keep it under 120 words and use UTC timestamps.',
+      writeGuidance(options.writesEnabled, 'After the human approves the text, post it with `append-incident-timeline` (kind "status_update").'),
+    ]),
+  ].join('\n');
+  return promptResult(`Draft an ${audience} status update for incident ${id}`, instructions, sections);
+}
+
+export function draftPostmortemPrompt(id: string, sections: PromptContext[], options: PromptOptions): PromptResult {
+  const instructions = [
+    `Draft a blameless postmortem for incident ${id}. The incident and its timeline are attached below.`,
+    '',
+    numbered([
+      `Call \`correlate-deployments\` with incidentId "${id}" and \`investigate-incident\` with a wider lookbackMinutes to confirm the trigger.`,
+      'Find follow-up work already filed with `query-tickets`.',
+      'Write these sections: Summary, Impact (duration, users, and systems affected), Timeline (UTC, from the attached timeline), Root cause, Detection, Resolution, What went well, What went poorly, Action items (each with an owner and a priority).',
+      'Mark anything you could not confirm from the data as an open question rather than stating it as fact.',
+      writeGuidance(options.writesEnabled, `After the human reviews the action items, file them with \`create-ticket\` using incidentId "${id}".`),
+    ]),
+  ].join('\n');
+  return promptResult(`Draft a postmortem for incident ${id}`, instructions, sections);
+}
+
+export function handoffSummaryPrompt(subject: { id: string } | { service: string }, sections: PromptContext[]): PromptResult {
+  const target = 'id' in subject ? `incident ${subject.id}` : `service ${subject.service}`;
+  const instructions = [
+    `Write a handoff summary for the responder taking over ${target}. The current data is attached below.`,
+    '',
+    numbered([
+      'Check in-flight runbooks with `query-orchestration-runs`, and the steps that can run next with `get-orchestration-run`.',
+      'Summarize: current state and impact, what has been tried and with what result, the working hypothesis, open questions, and who is involved.',
+      'End with the next concrete action the incoming responder should take.',
+      'Keep it short enough to read in two minutes; link to incidents by ID rather than repeating their details.',
+    ]),
+  ].join('\n');
+  return promptResult(`Handoff summary for ${target}`, instructions, sections);
+}
@@ -0,0 +1,83 @@
+import { getActiveCore } from './config';
+
+export type RetryPolicy = {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Set only when Core is known to honour Idempotency-Key; otherwise a retried write could apply twice.
+  keyedWrites: boolean;
+};
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+function parseNonNegativeInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+export function getRetryPolicy(): RetryPolicy {
+  const configured = getActiveCore()?.retry;
+  return {
+    maxRetries: parseNonNegativeInt(process.env.OPSORCH_CORE_MAX_RETRIES, configured?.maxRetries ?? 2),
+    baseDelayMs: parseNonNegativeInt(process.env.OPSORCH_CORE_RETRY_BASE_MS, configured?.baseDelayMs ?? 250),
+    maxDelayMs: parseNonNegativeInt(process.env.OPSORCH_CORE_RETRY_MAX_MS, configured?.maxDelayMs ?? 4000),
+    keyedWrites: parseFlag(process.env.OPSORCH_CORE_RETRY_KEYED_WRITES, configured?.keyedWrites ?? false),
+  };
+}
+
+function parseFlag(value: string | undefined, fallback: boolean): boolean {
+  const trimmed = value?.trim().toLowerCase();
+  return trimmed ? trimmed === '1' || trimmed === 'true' : fallback;
+}
+
+// Only reads are safe to replay: every GET plus the POST search endpoints (e.g. /incidents/query).
+// Pass `hasIdempotencyKey` only when the policy allows keyed writes, since Core then applies them at most once.
+export function isIdempotentRequest(method: string, pathname: string, hasIdempotencyKey = false): boolean {
+  if (method === 'GET' || hasIdempotencyKey) {
+    return true;
+  }
+  return method === 'POST' && /\/query\/?$/.test(pathname.split('?')[0] ?? '');
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+// Retry-After is either delta-seconds or an HTTP date (RFC 9110 §10.2.3).
+export function parseRetryAfter(header: string | null | undefined, now = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number.parseInt(trimmed, 10) * 1000;
+  }
+  const at = Date.parse(trimmed);
+  if (Number.isNaN(at)) {
+    return undefined;
+  }
+  return Math.max(0, at - now);
+}
+
+// Exponential backoff with full jitter: a random delay in [0, min(max, base * 2^(attempt-1))].
+export function computeBackoffDelay(attempt: number, policy: Pick<RetryPolicy, 'baseDelayMs' | 'maxDelayMs'>, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  return Math.floor(random() * ceiling);
+}
+
+// Resolves early when `signal` aborts; the caller's next Core attempt then fails with the abort reason.
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
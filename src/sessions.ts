@@ -0,0 +1,187 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Principal } from './auth';
+import { getActiveConfig } from './config';
+import { logger } from './logger';
+
+export type SessionLimits = {
+  idleTimeoutMs: number;
+  maxAgeMs: number;
+  maxSessions: number;
+  sweepIntervalMs: number;
+};
+
+export type HttpSession = {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  principal?: Principal;
+  createdAt: number;
+  lastActivityAt: number;
+  requests: number;
+  toolCalls: number;
+  // GET streams the client is holding open to receive notifications, such as resource updates.
+  openStreams: number;
+};
+
+export type SessionCloseReason = 'idle' | 'max-age' | 'client' | 'shutdown';
+
+function parsePositiveInt(value: string | undefined): number | undefined {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+}
+
+export function getSessionLimits(): SessionLimits {
+  const configured = getActiveConfig()?.http?.sessions;
+  return {
+    idleTimeoutMs: parsePositiveInt(process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT_MS) ?? configured?.idleTimeoutMs ?? 30 * 60_000,
+    maxAgeMs: parsePositiveInt(process.env.MCP_HTTP_SESSION_MAX_AGE_MS) ?? configured?.maxAgeMs ?? 24 * 60 * 60_000,
+    maxSessions: parsePositiveInt(process.env.MCP_HTTP_MAX_SESSIONS) ?? configured?.maxSessions ?? 100,
+    sweepIntervalMs: parsePositiveInt(process.env.MCP_HTTP_SESSION_SWEEP_MS) ?? configured?.sweepIntervalMs ?? 60_000,
+  };
+}
+
+function countToolCalls(body: unknown): number {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.filter((message) => (message as { method?: unknown } | null)?.method === 'tools/call').length;
+}
+
+/**
+ * Stateful HTTP sessions keyed by `mcp-session-id`. Sessions expire after an idle period or a maximum age,
+ * whichever comes first; expired sessions are closed by `sweep()`, which `start()` runs on a timer. A session
+ * holding a GET stream open is waiting for notifications, not idle, so only the maximum age applies to it.
+ */
+export class SessionRegistry {
+  private readonly sessions = new Map<string, HttpSession>();
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly limits: SessionLimits,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  isFull(): boolean {
+    return this.sessions.size >= this.limits.maxSessions;
+  }
+
+  add(id: string, session: Pick<HttpSession, 'server' | 'transport' | 'principal'>): HttpSession {
+    const now = this.now();
+    const entry: HttpSession = { ...session, createdAt: now, lastActivityAt: now, requests: 0, toolCalls: 0, openStreams: 0 };
+    this.sessions.set(id, entry);
+    return entry;
+  }
+
+  // Looks up a live session; one that has already expired is closed here instead of waiting for the next sweep.
+  get(id: string): HttpSession | undefined {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return undefined;
+    }
+    const reason = this.expiryReason(session);
+    if (reason) {
+      void this.close(id, reason);
+      return undefined;
+    }
+    return session;
+  }
+
+  touch(session: HttpSession, body: unknown): void {
+    session.lastActivityAt = this.now();
+    session.requests++;
+    session.toolCalls += countToolCalls(body);
+  }
+
+  // Marks a GET stream as open; the returned callback marks it closed and counts the close as activity.
+  openStream(session: HttpSession): () => void {
+    session.openStreams++;
+    let closed = false;
+    return () => {
+      if (!closed) {
+        closed = true;
+        session.openStreams--;
+        session.lastActivityAt = this.now();
+      }
+    };
+  }
+
+  // Forgets a session without closing it; used when the transport reports that it already closed.
+  remove(id: string, transport: StreamableHTTPServerTransport): void {
+    if (this.sessions.get(id)?.transport === transport) {
+      this.sessions.delete(id);
+    }
+  }
+
+  async close(id: string, reason: SessionCloseReason): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(id);
+    logger.info('Closing MCP HTTP session', { sessionId: id, reason, principal: session.principal?.subject, requests: session.requests });
+    // Closing the server also closes its transport.
+    await session.server.close().catch((error) => {
+      logger.error('Failed to close MCP HTTP session server', { error, sessionId: id });
+    });
+  }
+
+  async sweep(): Promise<number> {
+    const expired = [...this.sessions].flatMap(([id, session]) => {
+      const reason = this.expiryReason(session);
+      return reason ? [{ id, reason }] : [];
+    });
+    await Promise.all(expired.map(({ id, reason }) => this.close(id, reason)));
+    return expired.length;
+  }
+
+  list(): Record<string, unknown>[] {
+    const now = this.now();
+    return [...this.sessions].map(([id, session]) => ({
+      id,
+      principal: session.principal?.subject ?? null,
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastActivityAt: new Date(session.lastActivityAt).toISOString(),
+      ageMs: now - session.createdAt,
+      idleMs: now - session.lastActivityAt,
+      requests: session.requests,
+      toolCalls: session.toolCalls,
+      openStreams: session.openStreams,
+    }));
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.sweep().then((closed) => {
+        if (closed > 0) {
+          logger.debug('Swept expired MCP HTTP sessions', { closed, active: this.sessions.size });
+        }
+      });
+    }, this.limits.sweepIntervalMs);
+    // The sweeper alone must not keep the process alive.
+    this.timer.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await Promise.all([...this.sessions.keys()].map((id) => this.close(id, 'shutdown')));
+  }
+
+  private expiryReason(session: HttpSession): SessionCloseReason | undefined {
+    const now = this.now();
+    if (now - session.createdAt >= this.limits.maxAgeMs) {
+      return 'max-age';
+    }
+    if (session.openStreams === 0 && now - session.lastActivityAt >= this.limits.idleTimeoutMs) {
+      return 'idle';
+    }
+    return undefined;
+  }
+}
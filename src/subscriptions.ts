@@ -0,0 +1,184 @@
+import { fingerprint } from './canonicalize';
+import { getActiveConfig } from './config';
+import { ToolInputError } from './errors';
+import { runWithCoreCredentials, type CoreCredentials } from './identity';
+import { logger } from './logger';
+
+export type SubscriptionLimits = {
+  pollIntervalMs: number;
+  maxPerSession: number;
+  maxTotal: number;
+};
+
+// The parts of a resource that subscribers are told about; fields a resource does not have stay undefined.
+export type ResourceSnapshot = {
+  status?: string;
+  severity?: string;
+  timelineEntryIds?: string[];
+};
+
+export type SubscriptionLoader = (uri: string) => Promise<ResourceSnapshot>;
+
+export type ResourceUpdateNotifier = (uri: string, changes: string[]) => Promise<void>;
+
+type Watch = {
+  uri: string;
+  credentials: CoreCredentials | undefined;
+  snapshot: ResourceSnapshot;
+  subscribers: Map<string, ResourceUpdateNotifier>;
+};
+
+function parsePositiveInt(value: string | undefined): number | undefined {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+}
+
+export function getSubscriptionLimits(): SubscriptionLimits {
+  const configured = getActiveConfig()?.subscriptions;
+  return {
+    pollIntervalMs: parsePositiveInt(process.env.OPSORCH_SUBSCRIPTION_POLL_MS) ?? configured?.pollIntervalMs ?? 30_000,
+    maxPerSession: parsePositiveInt(process.env.OPSORCH_MAX_SUBSCRIPTIONS_PER_SESSION) ?? configured?.maxPerSession ?? 25,
+    maxTotal: parsePositiveInt(process.env.OPSORCH_MAX_SUBSCRIPTIONS) ?? configured?.maxTotal ?? 1000,
+  };
+}
+
+export function describeChanges(before: ResourceSnapshot, after: ResourceSnapshot): string[] {
+  const changes: string[] = [];
+  for (const field of ['status', 'severity'] as const) {
+    if (before[field] !== after[field]) {
+      changes.push(`${field} ${before[field] ?? 'unset'} -> ${after[field] ?? 'unset'}`);
+    }
+  }
+  if (after.timelineEntryIds) {
+    const seen = new Set(before.timelineEntryIds ?? []);
+    const added = after.timelineEntryIds.filter((id) => !seen.has(id)).length;
+    if (added > 0) {
+      changes.push(`${added} new timeline ${added === 1 ? 'entry' : 'entries'}`);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Polls Core for every subscribed resource and notifies subscribers when its snapshot changes. Subscribers
+ * of the same URI share one Core read per poll, unless they reach Core with different forwarded credentials.
+ */
+export class SubscriptionPoller {
+  private readonly watches = new Map<string, Watch>();
+  private timer: NodeJS.Timeout | undefined;
+  private polling = false;
+
+  constructor(
+    private readonly limits: SubscriptionLimits,
+    private readonly load: SubscriptionLoader
+  ) {}
+
+  get size(): number {
+    let total = 0;
+    for (const watch of this.watches.values()) {
+      total += watch.subscribers.size;
+    }
+    return total;
+  }
+
+  // The first read is the baseline, so a failing Core rejects the subscription instead of reporting later.
+  async subscribe(uri: string, subscriberId: string, notify: ResourceUpdateNotifier, credentials: CoreCredentials | undefined): Promise<void> {
+    const key = this.watchKey(uri, credentials);
+    if (this.watches.get(key)?.subscribers.has(subscriberId)) {
+      return;
+    }
+    if (this.subscriptionsOf(subscriberId) >= this.limits.maxPerSession) {
+      throw new ToolInputError(`subscription limit reached: at most ${this.limits.maxPerSession} resources per session; unsubscribe from one first`);
+    }
+    if (this.size >= this.limits.maxTotal) {
+      throw new ToolInputError(`subscription limit reached: the server already watches ${this.limits.maxTotal} subscriptions; retry later`);
+    }
+    const snapshot = await runWithCoreCredentials(credentials, () => this.load(uri));
+    const watch = this.watches.get(key) ?? { uri, credentials, snapshot, subscribers: new Map<string, ResourceUpdateNotifier>() };
+    watch.subscribers.set(subscriberId, notify);
+    this.watches.set(key, watch);
+  }
+
+  unsubscribe(uri: string, subscriberId: string): void {
+    for (const [key, watch] of this.watches) {
+      if (watch.uri === uri && watch.subscribers.delete(subscriberId) && watch.subscribers.size === 0) {
+        this.watches.delete(key);
+      }
+    }
+  }
+
+  // Drops everything a closed session subscribed to.
+  removeSubscriber(subscriberId: string): void {
+    for (const [key, watch] of this.watches) {
+      if (watch.subscribers.delete(subscriberId) && watch.subscribers.size === 0) {
+        this.watches.delete(key);
+      }
+    }
+  }
+
+  // Watches are read one at a time to keep the load on Core flat; a failed read keeps the last snapshot.
+  async poll(): Promise<number> {
+    if (this.polling) {
+      return 0;
+    }
+    this.polling = true;
+    let notified = 0;
+    try {
+      for (const watch of [...this.watches.values()]) {
+        let snapshot: ResourceSnapshot;
+        try {
+          snapshot = await runWithCoreCredentials(watch.credentials, () => this.load(watch.uri));
+        } catch (error) {
+          logger.warn('Subscription poll failed', { uri: watch.uri, error });
+          continue;
+        }
+        const changes = describeChanges(watch.snapshot, snapshot);
+        watch.snapshot = snapshot;
+        if (changes.length === 0) {
+          continue;
+        }
+        for (const [subscriberId, notify] of watch.subscribers) {
+          notified++;
+          await notify(watch.uri, changes).catch((error) => {
+            logger.warn('Failed to send resource update', { uri: watch.uri, subscriberId, error });
+          });
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+    return notified;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.poll().then((notified) => {
+        if (notified > 0) {
+          logger.debug('Sent resource update notifications', { notified, subscriptions: this.size });
+        }
+      });
+    }, this.limits.pollIntervalMs);
+    // The poller alone must not keep the process alive.
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.watches.clear();
+  }
+
+  private subscriptionsOf(subscriberId: string): number {
+    return [...this.watches.values()].filter((watch) => watch.subscribers.has(subscriberId)).length;
+  }
+
+  // Tokens never appear in keys or logs; only a fingerprint tells callers with different Core identities apart.
+  private watchKey(uri: string, credentials: CoreCredentials | undefined): string {
+    return `${uri} ${credentials ? fingerprint(credentials.token) : 'static'}`;
+  }
+}
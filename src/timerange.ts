@@ -0,0 +1,87 @@
+import { ToolInputError } from './errors';
+
+export type TimeRangeInput = {
+  start: string;
+  end?: string | undefined;
+  step?: number | string | undefined;
+};
+
+export type ResolvedTimeRange = {
+  start: string;
+  end: string;
+  // Seconds, the unit Core expects for metric steps.
+  step?: number;
+};
+
+// Loads an incident's createdAt for `incident:<id>` anchors.
+export type IncidentAnchor = (id: string) => Promise<string>;
+
+const UNIT_MS: Record<string, number> = { ms: 1, s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+const DURATION = /^(\d+)(ms|s|m|h|d|w)$/;
+const NOW_OFFSET = /^now(?:([+-])(\d+(?:ms|s|m|h|d|w)))?$/;
+const LAST = /^last\s+(\d+(?:ms|s|m|h|d|w))$/;
+// The offset is optional and anchored to the end, so IDs that contain dashes (INC-123) still parse.
+const INCIDENT = /^incident:(.+?)(?:([+-])(\d+(?:ms|s|m|h|d|w)))?$/;
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+export const TIME_EXPRESSION_HELP = 'an ISO-8601 timestamp, now, now-30m, last 2h (start only), or incident:<id> with an optional offset such as incident:INC-123-15m';
+
+// Parses durations such as 30s, 5m, 2h, or 7d into milliseconds.
+export function parseDuration(text: string): number {
+  const match = DURATION.exec(text.trim());
+  if (!match || Number(match[1]) === 0) {
+    throw new ToolInputError(`duration ${text} is not valid; use a positive number with a unit of ms, s, m, h, d, or w, such as 30s or 5m`);
+  }
+  return Number(match[1]) * UNIT_MS[match[2]!]!;
+}
+
+function offset(base: number, sign: string | undefined, duration: string | undefined): number {
+  return duration === undefined ? base : base + (sign === '-' ? -1 : 1) * parseDuration(duration);
+}
+
+async function resolveExpression(field: 'start' | 'end', expression: string, now: number, anchor: IncidentAnchor): Promise<string> {
+  const text = expression.trim();
+  if (ISO_DATETIME.test(text)) {
+    return text;
+  }
+  const relative = NOW_OFFSET.exec(text);
+  if (relative) {
+    return new Date(offset(now, relative[1], relative[2])).toISOString();
+  }
+  const last = LAST.exec(text);
+  if (last) {
+    if (field === 'end') {
+      throw new ToolInputError(`end cannot be "${text}"; last <duration> describes a start, and end defaults to now`);
+    }
+    return new Date(now - parseDuration(last[1]!)).toISOString();
+  }
+  const incident = INCIDENT.exec(text);
+  if (incident) {
+    const createdAt = Date.parse(await anchor(incident[1]!));
+    if (Number.isNaN(createdAt)) {
+      throw new ToolInputError(`incident ${incident[1]} has no usable createdAt to anchor ${field} to`);
+    }
+    return new Date(offset(createdAt, incident[2], incident[3])).toISOString();
+  }
+  throw new ToolInputError(`${field} "${expression}" is not a time; use ${TIME_EXPRESSION_HELP}`);
+}
+
+/**
+ * Turns the start/end/step a model passes into the absolute values Core expects. ISO timestamps pass through
+ * unchanged; end defaults to now, and a duration step such as "1m" becomes seconds.
+ */
+export async function resolveTimeRange(input: TimeRangeInput, anchor: IncidentAnchor, now = Date.now()): Promise<ResolvedTimeRange> {
+  const start = await resolveExpression('start', input.start, now, anchor);
+  const end = await resolveExpression('end', input.end ?? 'now', now, anchor);
+  if (Date.parse(start) >= Date.parse(end)) {
+    throw new ToolInputError(`start ${start} must be before end ${end}`);
+  }
+  if (input.step === undefined) {
+    return { start, end };
+  }
+  const step = typeof input.step === 'number' ? input.step : parseDuration(input.step) / 1_000;
+  if (!Number.isInteger(step) || step <= 0) {
+    throw new ToolInputError(`step ${input.step} must be a whole number of seconds, such as 60 or "1m"`);
+  }
+  return { start, end, step };
+}
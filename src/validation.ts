@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { getActiveConfig } from './config';
+import { ResponseValidationError, type SchemaIssue } from './errors';
+import { logger } from './logger';
+
+export type ValidationMode = 'strict' | 'lenient' | 'off';
+
+const VALIDATION_MODES: readonly ValidationMode[] = ['strict', 'lenient', 'off'];
+
+// Each pass can only repair the issues zod reports for it, and nested repairs surface new issues.
+const MAX_REPAIR_PASSES = 5;
+
+export function getValidationMode(): ValidationMode {
+  const value = process.env.OPSORCH_RESPONSE_VALIDATION?.toLowerCase();
+  return VALIDATION_MODES.find((mode) => mode === value) ?? getActiveConfig()?.responseValidation ?? 'lenient';
+}
+
+export type ValidationResult = {
+  data: unknown;
+  warnings: SchemaIssue[];
+};
+
+export function formatJsonPath(path: (string | number)[]): string {
+  return path.reduce<string>((acc, segment) => (typeof segment === 'number' ? `${acc}[${segment}]` : `${acc}.${segment}`), '$');
+}
+
+function toSchemaIssues(error: z.ZodError): SchemaIssue[] {
+  return error.issues.map((issue) => ({ path: formatJsonPath(issue.path), message: issue.message }));
+}
+
+// Arrays index by number and objects by key, so both walk as the same record shape.
+type PathNode = Record<string | number, unknown>;
+
+function isPathNode(node: unknown): node is PathNode {
+  return node !== null && typeof node === 'object';
+}
+
+function getAt(root: unknown, path: (string | number)[]): unknown {
+  return path.reduce<unknown>((node, segment) => (isPathNode(node) ? node[segment] : undefined), root);
+}
+
+function setAt(root: unknown, path: (string | number)[], value: unknown): void {
+  const parent = getAt(root, path.slice(0, -1));
+  const key = path[path.length - 1];
+  if (!isPathNode(parent) || key === undefined) {
+    return;
+  }
+  if (value === undefined) {
+    delete parent[key];
+  } else {
+    parent[key] = value;
+  }
+}
+
+// Returns `[true, repaired]` for scalar drift we can safely coerce, `[false, undefined]` otherwise.
+function coerce(issue: z.ZodIssue, value: unknown): [boolean, unknown] {
+  if (issue.code === z.ZodIssueCode.invalid_type) {
+    if (issue.received === 'null') {
+      // Providers often send `null` for absent optional fields; dropping the key lets `.optional()` accept it.
+      return [true, undefined];
+    }
+    if (issue.expected === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+      return [true, String(value)];
+    }
+    if (issue.expected === 'number' && typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+      return [true, Number(value)];
+    }
+  }
+  if (issue.code === z.ZodIssueCode.invalid_string && issue.validation === 'datetime') {
+    const at = typeof value === 'string' || typeof value === 'number' ? Date.parse(String(value)) : Number.NaN;
+    if (!Number.isNaN(at)) {
+      return [true, new Date(at).toISOString()];
+    }
+  }
+  return [false, undefined];
+}
+
+function nearestArrayItem(path: (string | number)[]): (string | number)[] | undefined {
+  for (let i = path.length - 1; i >= 0; i--) {
+    if (typeof path[i] === 'number') {
+      return path.slice(0, i + 1);
+    }
+  }
+  return undefined;
+}
+
+function repair(schema: z.ZodTypeAny, data: unknown, warnings: SchemaIssue[]): z.SafeParseReturnType<unknown, unknown> {
+  let result = schema.safeParse(data);
+
+  for (let pass = 0; pass < MAX_REPAIR_PASSES && !result.success; pass++) {
+    const drops = new Map<string, (string | number)[]>();
+    let changed = false;
+
+    for (const issue of result.error.issues) {
+      const [fixed, value] = coerce(issue, getAt(data, issue.path));
+      if (fixed) {
+        setAt(data, issue.path, value);
+        warnings.push({ path: formatJsonPath(issue.path), message: `coerced: ${issue.message}` });
+        changed = true;
+        continue;
+      }
+      const item = nearestArrayItem(issue.path);
+      if (item) {
+        drops.set(formatJsonPath(item), item);
+        warnings.push({ path: formatJsonPath(issue.path), message: `dropped ${formatJsonPath(item)}: ${issue.message}` });
+      }
+    }
+
+    // Splice deepest and highest indices first so earlier removals do not shift later ones.
+    const ordered = [...drops.values()].sort((a, b) => b.length - a.length || (b[b.length - 1] as number) - (a[a.length - 1] as number));
+    for (const item of ordered) {
+      const list = getAt(data, item.slice(0, -1));
+      if (Array.isArray(list)) {
+        list.splice(item[item.length - 1] as number, 1);
+        changed = true;
+      }
+    }
+
+    if (!changed) {
+      break;
+    }
+    result = schema.safeParse(data);
+  }
+
+  return result;
+}
+
+/**
+ * Checks a Core payload against a tool's declared output schema.
+ * `strict` rejects any mismatch; `lenient` coerces scalar drift, drops unusable list items and reports what it changed;
+ * `off` forwards the payload untouched.
+ */
+export function validateResponse(tool: string, schema: z.ZodTypeAny, data: unknown, mode: ValidationMode = getValidationMode()): ValidationResult {
+  if (mode === 'off') {
+    return { data, warnings: [] };
+  }
+
+  const initial = schema.safeParse(data);
+  if (initial.success) {
+    return { data: initial.data, warnings: [] };
+  }
+
+  if (mode === 'strict') {
+    const issues = toSchemaIssues(initial.error);
+    logger.warn('OpsOrch Core response drifted from tool schema', { tool, mode, paths: issues.map((issue) => issue.path), issues });
+    throw new ResponseValidationError(tool, issues);
+  }
+
+  const warnings: SchemaIssue[] = [];
+  const repaired = repair(schema, structuredClone(data), warnings);
+  if (!repaired.success) {
+    const issues = toSchemaIssues(repaired.error);
+    logger.warn('OpsOrch Core response drifted from tool schema', { tool, mode, paths: issues.map((issue) => issue.path), issues });
+    throw new ResponseValidationError(tool, issues);
+  }
+
+  logger.warn('OpsOrch Core response drifted from tool schema', { tool, mode, paths: warnings.map((warning) => warning.path), warnings });
+  return { data: repaired.data, warnings };
+}
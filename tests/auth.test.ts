@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createHash, generateKeyPairSync, sign } from 'node:crypto';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { AuthError, createApiKeyAuthenticator, loadApiKeys, staticKeySource, verifyJwt } from '../src/auth';
+import { readRpcError, withEnv, withHttpApp, withMockCore } from './helpers';
+
+const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig' }] };
+const keySource = staticKeySource(jwks);
+const options = { audiences: ['opsorch-mcp'], issuer: 'https://id.opsorch.dev', clockSkewSeconds: 0 };
+
+function signJwt(claims: Record<string, unknown>, header: Record<string, unknown> = { alg: 'ES256', kid: 'key-1' }): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode(header)}.${encode(claims)}`;
+  const signature = sign('sha256', Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+const validClaims = () => ({
+  sub: 'agent-7',
+  iss: 'https://id.opsorch.dev',
+  aud: ['opsorch-mcp'],
+  exp: Math.floor(Date.now() / 1000) + 300,
+  scope: 'incidents:read tickets:read',
+});
+
+test('verifyJwt accepts a correctly signed token and extracts the principal', async () => {
+  const principal = await verifyJwt(signJwt(validClaims()), keySource, options);
+  assert.equal(principal.type, 'jwt');
+  assert.equal(principal.subject, 'agent-7');
+  assert.deepEqual(principal.scopes, ['incidents:read', 'tickets:read']);
+});
+
+test('verifyJwt rejects expired, foreign-audience, untrusted-issuer and tampered tokens', async () => {
+  const expired = { ...validClaims(), exp: Math.floor(Date.now() / 1000) - 10 };
+  await assert.rejects(verifyJwt(signJwt(expired), keySource, options), /expired/);
+  await assert.rejects(verifyJwt(signJwt({ ...validClaims(), aud: 'other' }), keySource, options), /audience/);
+  await assert.rejects(verifyJwt(signJwt({ ...validClaims(), iss: 'https://evil.example' }), keySource, options), /issuer/);
+
+  const [header, , signature] = signJwt(validClaims()).split('.');
+  const forged = `${header}.${Buffer.from(JSON.stringify({ ...validClaims(), sub: 'admin' })).toString('base64url')}.${signature}`;
+  await assert.rejects(verifyJwt(forged, keySource, options), /signature/);
+});
+
+test('verifyJwt refuses unsigned and symmetric algorithms', async () => {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  await assert.rejects(verifyJwt(`${encode({ alg: 'none' })}.${encode(validClaims())}.`, keySource, options), AuthError);
+  await assert.rejects(verifyJwt(`${encode({ alg: 'HS256' })}.${encode(validClaims())}.c2ln`, keySource, options), /Unsupported JWT algorithm/);
+  await assert.rejects(verifyJwt(signJwt(validClaims(), { alg: 'ES256', kid: 'unknown' }), keySource, options), /No matching signing key/);
+});
+
+test('API keys load from a file with plain or hashed secrets', async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'opsorch-mcp-auth-'));
+  const file = path.join(dir, 'keys.json');
+  writeFileSync(
+    file,
+    JSON.stringify({
+      keys: [
+        { id: 'ci-bot', key: 'plain-secret', scopes: ['read'] },
+        { id: 'oncall', sha256: createHash('sha256').update('hashed-secret').digest('hex') },
+      ],
+    })
+  );
+
+  const authenticator = createApiKeyAuthenticator(loadApiKeys(file), 'x-api-key');
+  const headers = (value?: string) => (name: string) => (name === 'x-api-key' ? value : undefined);
+
+  assert.equal((await authenticator.authenticate(headers('plain-secret'))).subject, 'ci-bot');
+  assert.equal((await authenticator.authenticate(headers('hashed-secret'))).subject, 'oncall');
+  await assert.rejects(authenticator.authenticate(headers('wrong')), /Invalid API key/);
+  await assert.rejects(authenticator.authenticate(headers()), /Missing x-api-key/);
+
+  writeFileSync(file, JSON.stringify({ keys: [{ id: 'broken' }] }));
+  assert.throws(() => loadApiKeys(file), /Invalid API keys file/);
+});
+
+test('HTTP /mcp requires a valid credential when auth is configured', async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'opsorch-mcp-auth-'));
+  const jwksFile = path.join(dir, 'jwks.json');
+  writeFileSync(jwksFile, JSON.stringify(jwks));
+  const env = { MCP_HTTP_AUTH: 'jwt', MCP_HTTP_JWT_JWKS_FILE: jwksFile, MCP_HTTP_JWT_AUDIENCE: 'opsorch-mcp', MCP_HTTP_JWT_ISSUER: 'https://id.opsorch.dev' };
+
+  await withEnv(env, () =>
+    withHttpApp(async ({ post }) => {
+      const anonymous = await post('tools/list');
+      assert.equal(anonymous.status, 401);
+      assert.equal(anonymous.headers.get('www-authenticate'), 'Bearer');
+      assert.equal((await readRpcError(anonymous)).code, -32001);
+
+      const authorized = await post('tools/list', undefined, { Authorization: `Bearer ${signJwt(validClaims())}` });
+      assert.equal(authorized.status, 200);
+    })
+  );
+});
+
+test('HTTP /mcp answers 503 without details when the token issuer cannot be reached', async () => {
+  const env = { MCP_HTTP_AUTH: 'jwt', MCP_HTTP_JWT_JWKS_FILE: undefined, MCP_HTTP_JWT_AUDIENCE: 'opsorch-mcp', MCP_HTTP_JWT_ISSUER: 'https://id.opsorch.dev' };
+  const signals: unknown[] = [];
+  const issuer = (_path: string, init: any) => {
+    signals.push(init?.signal);
+    throw new Error('connect ECONNREFUSED 10.0.0.7:443');
+  };
+
+  await withEnv(env, () =>
+    withMockCore('https://id.opsorch.dev', issuer, () =>
+      withHttpApp(async ({ post }) => {
+        const response = await post('tools/list', undefined, { Authorization: `Bearer ${signJwt(validClaims())}` });
+        assert.equal(response.status, 503);
+        assert.equal(response.headers.get('retry-after'), '5');
+        const text = await response.text();
+        assert.match(text, /Authentication is temporarily unavailable/);
+        assert.doesNotMatch(text, /ECONNREFUSED/);
+        assert.ok(signals[0] instanceof AbortSignal);
+      })
+    )
+  );
+});
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { test, mock } from 'node:test';
+import { cachedCoreRequest, responseCache } from '../src/index';
+import { ResponseCache } from '../src/cache';
+
+const sampleURL = 'http://localhost:8080';
+
+test('ResponseCache expires entries after their TTL', async () => {
+  let now = 1_000;
+  const cache = new ResponseCache(10, () => now);
+  cache.set('a', 1, 100);
+  assert.equal(cache.get('a'), 1);
+  now += 100;
+  assert.equal(cache.get('a'), undefined);
+  assert.equal(cache.size, 0);
+});
+
+test('ResponseCache evicts the least recently used entry', () => {
+  const cache = new ResponseCache(2);
+  cache.set('a', 1, 1_000);
+  cache.set('b', 2, 1_000);
+  cache.get('a');
+  cache.set('c', 3, 1_000);
+  assert.equal(cache.get('a'), 1);
+  assert.equal(cache.get('b'), undefined);
+  assert.equal(cache.get('c'), 3);
+});
+
+test('ResponseCache coalesces concurrent loads and does not cache failures', async () => {
+  const cache = new ResponseCache(10);
+  let loads = 0;
+  const load = async () => {
+    loads++;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    return 'value';
+  };
+
+  const results = await Promise.all([cache.getOrLoad('k', 1_000, load), cache.getOrLoad('k', 1_000, load)]);
+  assert.deepEqual(results, ['value', 'value']);
+  assert.equal(loads, 1);
+
+  await assert.rejects(cache.getOrLoad('bad', 1_000, async () => Promise.reject(new Error('down'))), /down/);
+  assert.equal(await cache.getOrLoad('bad', 1_000, async () => 'recovered'), 'recovered');
+});
+
+test('cachedCoreRequest reuses responses keyed by path and canonical body', async () => {
+  process.env.OPSORCH_CORE_URL = sampleURL;
+  responseCache.clear();
+
+  let calls = 0;
+  const restore = mock.method(global, 'fetch', async () => {
+    calls++;
+    return new Response(JSON.stringify([{ id: 'svc-checkout', name: 'checkout' }]), { status: 200 });
+  });
+
+  try {
+    await cachedCoreRequest('service', '/services/query', 'POST', { name: 'checkout', limit: 5 });
+    await cachedCoreRequest('service', '/services/query', 'POST', { limit: 5, name: 'checkout' });
+    assert.equal(calls, 1);
+
+    await cachedCoreRequest('service', '/services/query', 'POST', { name: 'payments', limit: 5 });
+    assert.equal(calls, 2);
+
+    await cachedCoreRequest('service', '/services/query', 'POST', { name: 'checkout', limit: 5 }, true);
+    assert.equal(calls, 3);
+  } finally {
+    restore.mock.restore();
+    responseCache.clear();
+  }
+});
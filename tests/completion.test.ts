@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { matchCompletions } from '../src/completion';
+import { responseCache } from '../src/index';
+import { respond, withCoreApp } from './helpers';
+
+const coreURL = 'http://core.completion.test';
+
+test('matchCompletions ranks prefix, word, substring, then fuzzy matches', () => {
+  const candidates = ['checkout-api', 'checkout', 'payments-checkout', 'search', 'cart-hook-api', 'Checkout-worker'];
+  assert.deepEqual(matchCompletions(candidates, 'check'), {
+    values: ['checkout', 'checkout-api', 'Checkout-worker', 'payments-checkout'],
+    total: 4,
+    hasMore: false,
+  });
+  assert.deepEqual(matchCompletions(candidates, 'chkapi').values, ['checkout-api', 'cart-hook-api']);
+  assert.deepEqual(matchCompletions(candidates, 'hook-').values, ['cart-hook-api']);
+  assert.deepEqual(matchCompletions(candidates, 'zzz'), { values: [], total: 0, hasMore: false });
+
+  const many = Array.from({ length: 150 }, (_, i) => `svc-${String(i).padStart(3, '0')}`);
+  const all = matchCompletions(many, '');
+  assert.equal(all.values.length, 100);
+  assert.equal(all.total, 150);
+  assert.equal(all.hasMore, true);
+});
+
+test('completion/complete suggests Core identifiers for tool, resource, and prompt arguments', async () => {
+  responseCache.clear();
+
+  const calls: string[] = [];
+  const core = (path: string, init: any) => {
+    calls.push(`${path} ${init.body}`);
+    switch (path) {
+      case '/services/query':
+        return respond([
+          { id: 'checkout-api', name: 'Checkout API' },
+          { id: 'search', name: 'Search' },
+        ]);
+      case '/teams/query':
+        return respond([
+          { id: 'payments', name: 'Payments' },
+          { id: 'platform', name: 'Platform' },
+        ]);
+      case '/metrics/describe':
+        return respond({ metrics: JSON.parse(init.body).service === 'checkout-api' ? [{ name: 'http_requests_total', type: 'counter', description: 'Requests' }] : [] });
+      case '/orchestration/plans/query':
+        return respond({ message: 'plans unavailable' }, 503);
+      default:
+        return respond({ message: `unexpected ${path}` }, 500);
+    }
+  };
+
+  await withCoreApp(coreURL, core, async ({ rpc }) => {
+    const complete = async (ref: Record<string, string>, name: string, value: string, context?: Record<string, string>) =>
+      (await rpc('completion/complete', { ref, argument: { name, value }, ...(context ? { context: { arguments: context } } : {}) })).result.completion;
+
+    assert.deepEqual(await complete({ type: 'ref/tool', name: 'query-incidents' }, 'scope.service', 'chk'), { values: ['checkout-api'], total: 1, hasMore: false });
+    assert.deepEqual((await complete({ type: 'ref/resource', uri: 'opsorch://services/{id}' }, 'id', 'se')).values, ['search']);
+    assert.deepEqual((await complete({ type: 'ref/prompt', name: 'handoff-summary' }, 'service', '')).values, ['search', 'checkout-api']);
+    assert.equal(calls.filter((call) => call.startsWith('/services/query')).length, 1);
+
+    assert.deepEqual((await complete({ type: 'ref/tool', name: 'get-team' }, 'id', 'p')).values, ['payments', 'platform']);
+    assert.deepEqual((await complete({ type: 'ref/tool', name: 'query-metrics' }, 'expression.metricName', 'http', { 'scope.service': 'checkout-api' })).values, [
+      'http_requests_total',
+    ]);
+    assert.deepEqual((await complete({ type: 'ref/tool', name: 'query-metrics' }, 'expression.metricName', 'http')).values, []);
+
+    assert.deepEqual(await complete({ type: 'ref/tool', name: 'get-orchestration-plan' }, 'id', 'db'), { values: [] });
+    assert.deepEqual(await complete({ type: 'ref/tool', name: 'query-logs' }, 'q', 'sev'), { values: [] });
+  }).finally(() => responseCache.clear());
+});
@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import { test, mock } from 'node:test';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { buildURL, coreRequest } from '../src/index';
+import { configureFromCli, loadConfigFile, parseCliArgs, setActiveConfig } from '../src/config';
+import { getRetryPolicy } from '../src/retry';
+
+function writeConfig(name: string, contents: string): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'opsorch-mcp-config-'));
+  const file = path.join(dir, name);
+  writeFileSync(file, contents);
+  return file;
+}
+
+const yamlConfig = `
+defaultProfile: staging
+responseValidation: strict
+profiles:
+  staging:
+    url: https://core.staging.opsorch.dev
+    token:
+      env: STAGING_CORE_TOKEN
+    timeoutMs: 5000
+    retry:
+      maxRetries: 4
+  prod:
+    url: https://core.opsorch.dev/api
+    token:
+      file: prod-token
+`;
+
+test('parseCliArgs reads --config and --profile in both forms', () => {
+  assert.deepEqual(parseCliArgs(['--config', 'mcp.yaml', '--profile=prod']), { configPath: 'mcp.yaml', profile: 'prod' });
+  assert.deepEqual(parseCliArgs(['--other']), {});
+  assert.throws(() => parseCliArgs(['--config']), /--config requires a value/);
+});
+
+test('loadConfigFile selects the default profile and resolves env token sources', () => {
+  const file = writeConfig('mcp.yaml', yamlConfig);
+  process.env.STAGING_CORE_TOKEN = 'staging-secret';
+
+  try {
+    const config = loadConfigFile(file);
+    assert.equal(config.profile, 'staging');
+    assert.equal(config.core.url, 'https://core.staging.opsorch.dev');
+    assert.equal(config.core.token, 'staging-secret');
+    assert.equal(config.core.timeoutMs, 5000);
+    assert.equal(config.responseValidation, 'strict');
+  } finally {
+    delete process.env.STAGING_CORE_TOKEN;
+  }
+});
+
+test('loadConfigFile resolves file token sources relative to the config file', () => {
+  const file = writeConfig('mcp.yaml', yamlConfig);
+  writeFileSync(path.join(path.dirname(file), 'prod-token'), 'prod-secret\n');
+
+  const config = loadConfigFile(file, 'prod');
+  assert.equal(config.core.token, 'prod-secret');
+  assert.throws(() => loadConfigFile(file, 'dev'), /Profile dev is not defined .*available profiles: staging, prod/);
+});
+
+test('loadConfigFile reports every schema violation with its path', () => {
+  const file = writeConfig(
+    'mcp.json',
+    JSON.stringify({ profiles: { prod: { url: 'not a url', timeoutMs: -1 } }, logLevel: 'loud', extra: true })
+  );
+
+  assert.throws(
+    () => loadConfigFile(file),
+    (error: Error) => {
+      assert.match(error.message, /Invalid config file/);
+      assert.match(error.message, /profiles\.prod\.url: Invalid url/);
+      assert.match(error.message, /profiles\.prod\.timeoutMs/);
+      assert.match(error.message, /logLevel/);
+      assert.match(error.message, /Unrecognized key\(s\) in object: 'extra'/);
+      return true;
+    }
+  );
+});
+
+test('loadConfigFile requires a profile choice when several exist without a default', () => {
+  const file = writeConfig('mcp.json', JSON.stringify({ profiles: { a: { url: 'http://a' }, b: { url: 'http://b' } } }));
+  assert.throws(() => loadConfigFile(file), /select one with --profile or OPSORCH_PROFILE/);
+});
+
+test('the active profile drives Core settings while env vars override it', async () => {
+  const file = writeConfig('mcp.yaml', yamlConfig);
+  writeFileSync(path.join(path.dirname(file), 'prod-token'), 'prod-secret');
+  const previousURL = process.env.OPSORCH_CORE_URL;
+  const previousToken = process.env.OPSORCH_CORE_TOKEN;
+  delete process.env.OPSORCH_CORE_URL;
+  delete process.env.OPSORCH_CORE_TOKEN;
+
+  let capturedAuth: string | null = null;
+  const restore = mock.method(global, 'fetch', async (_url: any, init: any) => {
+    capturedAuth = new Headers(init?.headers).get('authorization');
+    return new Response(JSON.stringify([]), { status: 200 });
+  });
+
+  try {
+    configureFromCli(['--config', file, '--profile', 'prod']);
+    assert.equal(buildURL('/incidents/query'), 'https://core.opsorch.dev/api/incidents/query');
+    await coreRequest('/incidents/query', 'POST', {});
+    assert.equal(capturedAuth, 'Bearer prod-secret');
+
+    configureFromCli(['--config', file]);
+    assert.equal(getRetryPolicy().maxRetries, 4);
+    process.env.OPSORCH_CORE_MAX_RETRIES = '1';
+    assert.equal(getRetryPolicy().maxRetries, 1);
+
+    process.env.OPSORCH_CORE_URL = 'http://override:8080';
+    assert.equal(buildURL('/teams/query'), 'http://override:8080/teams/query');
+  } finally {
+    restore.mock.restore();
+    setActiveConfig(undefined);
+    delete process.env.OPSORCH_CORE_MAX_RETRIES;
+    if (previousURL === undefined) {
+      delete process.env.OPSORCH_CORE_URL;
+    } else {
+      process.env.OPSORCH_CORE_URL = previousURL;
+    }
+    if (previousToken === undefined) {
+      delete process.env.OPSORCH_CORE_TOKEN;
+    } else {
+      process.env.OPSORCH_CORE_TOKEN = previousToken;
+    }
+  }
+});
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { rankDeployments, scoreDeployment } from '../src/correlation';
+import { respond, withCoreApp } from './helpers';
+
+const coreURL = 'http://core.correlation.test';
+const at = Date.parse('2024-03-01T12:00:00Z');
+
+test('scoreDeployment explains every point it awards', () => {
+  const scored = scoreDeployment(
+    { id: 'd1', service: 'checkout', status: 'failed', startedAt: '2024-03-01T11:00:00Z', finishedAt: '2024-03-01T12:10:00Z' },
+    { at, service: 'checkout' }
+  );
+
+  assert.equal(scored.score, 25 + 10 + 25 + 25);
+  assert.equal(scored.relation, 'service');
+  assert.deepEqual(scored.reasons, [
+    'started 60m before the incident: +25 proximity (halves every hour)',
+    'was still rolling out when the incident began: +10',
+    'status failed: +25',
+    'deployed the affected service checkout: +25',
+  ]);
+});
+
+test('rankDeployments puts recent, failed, same-service releases first', () => {
+  const ranked = rankDeployments(
+    [
+      { id: 'old', service: 'checkout', status: 'succeeded', startedAt: '2024-02-29T12:00:00Z', finishedAt: '2024-02-29T12:05:00Z' },
+      { id: 'dep', service: 'payments', status: 'rolled_back', startedAt: '2024-03-01T11:50:00Z', finishedAt: '2024-03-01T11:55:00Z' },
+      { id: 'own', service: 'checkout', status: 'succeeded', startedAt: '2024-03-01T11:50:00Z', finishedAt: '2024-03-01T11:55:00Z' },
+      { id: 'after', service: 'checkout', status: 'succeeded', startedAt: '2024-03-01T12:10:00Z', finishedAt: '2024-03-01T12:15:00Z' },
+    ],
+    { at, service: 'checkout' }
+  );
+
+  assert.deepEqual(
+    ranked.map((entry) => [entry.deployment.id, entry.score]),
+    [
+      ['dep', 75],
+      ['own', 70],
+      ['after', 25],
+      ['old', 25],
+    ]
+  );
+  assert.match(ranked.find((entry) => entry.deployment.id === 'after')!.reasons[0]!, /after the incident began: \+0/);
+  assert.match(ranked.find((entry) => entry.deployment.id === 'dep')!.reasons.join('\n'), /deployed dependency payments: \+10/);
+});
+
+test('correlate-deployments ranks deployments of the incident service and its dependencies', async () => {
+  const deploymentScopes: unknown[] = [];
+  const core = (path: string, init: any) => {
+    const body = init?.body ? JSON.parse(init.body) : null;
+    switch (path) {
+      case '/incidents/INC-7':
+        return respond({
+          id: 'INC-7',
+          title: 'Checkout 500s',
+          status: 'open',
+          severity: 'sev1',
+          service: 'checkout',
+          createdAt: '2024-03-01T12:00:00Z',
+          updatedAt: '2024-03-01T12:05:00Z',
+        });
+      case '/services/query':
+        return respond([{ id: 'checkout', name: 'checkout', tags: { environment: 'prod' }, metadata: { dependencies: ['payments', 'search'] } }]);
+      case '/deployments/query':
+        deploymentScopes.push(body.scope);
+        if (body.scope.service === 'search') {
+          return respond({ message: 'deploy provider down' }, 503);
+        }
+        return respond(
+          body.scope.service === 'checkout'
+            ? [
+                { id: 'c2', version: 'v2', status: 'succeeded', startedAt: '2024-03-01T11:40:00Z', finishedAt: '2024-03-01T11:45:00Z' },
+                { id: 'c0', version: 'v0', status: 'succeeded', startedAt: '2024-02-20T11:40:00Z', finishedAt: '2024-02-20T11:45:00Z' },
+              ]
+            : [{ id: 'p1', service: 'payments', status: 'failed', startedAt: '2024-03-01T11:30:00Z', finishedAt: '2024-03-01T11:35:00Z' }]
+        );
+      default:
+        return respond({ message: `unexpected ${path}` }, 404);
+    }
+  };
+
+  await withCoreApp(coreURL, core, async ({ callTool }) => {
+    const result = await callTool('correlate-deployments', { incidentId: 'INC-7' });
+    const report = result.structuredContent;
+
+    assert.equal(result.isError, undefined);
+    assert.equal(report.service, 'checkout');
+    assert.equal(report.environment, 'prod');
+    assert.deepEqual(report.dependencies, ['payments', 'search']);
+    assert.deepEqual(report.window, { start: '2024-02-29T12:00:00.000Z', end: '2024-03-01T12:00:00.000Z' });
+    assert.deepEqual(deploymentScopes[0], { service: 'checkout', environment: 'prod' });
+    assert.deepEqual(
+      report.deployments.map((entry: any) => [entry.deployment.id, entry.deployment.service, entry.relation]),
+      [
+        ['p1', 'payments', 'dependency'],
+        ['c2', 'checkout', 'service'],
+      ]
+    );
+    assert.equal(report.errors[0].service, 'search');
+    assert.match(result.content[0].text, /^2 deployment\(s\) of checkout and its dependencies/);
+    assert.match(result.content[0].text, /Deployments for dependency search were unavailable/);
+  });
+});
+
+test('correlate-deployments pages back to the look-back window and reports truncation', async () => {
+  const deployment = (id: string, startedAt: string) => ({ id, status: 'succeeded', startedAt, finishedAt: startedAt });
+  // Newest first: releases after the incident, three inside the look-back window, then older history.
+  const history = [
+    ...Array.from({ length: 60 }, (_, i) => deployment(`later-${i}`, new Date(Date.parse('2024-03-10T00:00:00Z') - i * 60_000).toISOString())),
+    deployment('w1', '2024-03-01T11:50:00Z'),
+    deployment('w2', '2024-03-01T09:00:00Z'),
+    deployment('w3', '2024-02-29T20:00:00Z'),
+    deployment('old', '2024-02-20T00:00:00Z'),
+  ];
+  const core = (path: string, init: any) =>
+    path === '/deployments/query' ? respond(history.slice(0, JSON.parse(init.body).limit)) : respond({ message: `unexpected ${path}` }, 404);
+
+  await withCoreApp(coreURL, core, async ({ callTool }) => {
+    const args = { service: 'checkout', at: '2024-03-01T12:00:00Z', dependencies: [] };
+    const full = (await callTool('correlate-deployments', args)).structuredContent;
+    assert.deepEqual(full.deployments.map((entry: any) => entry.deployment.id).sort(), ['w1', 'w2', 'w3']);
+    assert.equal(full.truncated, undefined);
+
+    const limited = await callTool('correlate-deployments', { ...args, limit: 2 });
+    assert.deepEqual(
+      limited.structuredContent.deployments.map((entry: any) => entry.deployment.id),
+      ['w1', 'w2']
+    );
+    assert.deepEqual(limited.structuredContent.truncated, ['checkout']);
+    assert.match(limited.content[0].text, /Deployments for checkout were truncated/);
+  });
+});
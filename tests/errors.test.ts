@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict';
+import { test, mock } from 'node:test';
+import { coreRequest } from '../src/index';
+import { CoreError, asToolError, kindForStatus } from '../src/errors';
+import { runWithToolCall } from '../src/progress';
+import { respond, withCoreApp, withEnv } from './helpers';
+
+const sampleURL = 'http://localhost:8080';
+
+test('kindForStatus maps Core statuses onto error kinds', () => {
+  assert.equal(kindForStatus(400), 'bad_request');
+  assert.equal(kindForStatus(401), 'unauthorized');
+  assert.equal(kindForStatus(403), 'forbidden');
+  assert.equal(kindForStatus(404), 'not_found');
+  assert.equal(kindForStatus(418), 'bad_request');
+  assert.equal(kindForStatus(429), 'rate_limited');
+  assert.equal(kindForStatus(503), 'provider_unavailable');
+  assert.equal(kindForStatus(500), 'internal');
+});
+
+test('coreRequest throws CoreError with Core code and request id', async () => {
+  process.env.OPSORCH_CORE_URL = sampleURL;
+
+  const restore = mock.method(global, 'fetch', async () => {
+    return new Response(JSON.stringify({ message: 'Incident not found', code: 'incident_not_found' }), {
+      status: 404,
+      statusText: 'Not Found',
+      headers: { 'X-Request-Id': 'req-42' },
+    });
+  });
+
+  try {
+    const error = await coreRequest('/incidents/inc-404', 'GET').catch((e: unknown) => e);
+    assert.ok(error instanceof CoreError);
+    assert.equal(error.message, 'OpsOrch Core 404: Incident not found');
+    assert.equal(error.kind, 'not_found');
+    assert.equal(error.status, 404);
+    assert.equal(error.code, 'incident_not_found');
+    assert.equal(error.requestId, 'req-42');
+    assert.equal(error.path, '/incidents/inc-404');
+    assert.equal(error.retryable, false);
+  } finally {
+    restore.mock.restore();
+  }
+});
+
+test('coreRequest reports malformed success bodies as invalid_response', async () => {
+  process.env.OPSORCH_CORE_URL = sampleURL;
+
+  const restore = mock.method(global, 'fetch', async () => new Response('not json', { status: 200 }));
+
+  try {
+    const error = await coreRequest('/services/query', 'POST', {}).catch((e: unknown) => e);
+    assert.ok(error instanceof CoreError);
+    assert.equal(error.kind, 'invalid_response');
+    assert.equal(error.retryable, false);
+  } finally {
+    restore.mock.restore();
+  }
+});
+
+test('coreRequest reports an elapsed deadline as timeout', async () => {
+  process.env.OPSORCH_CORE_URL = sampleURL;
+  const previousTimeout = process.env.OPSORCH_CORE_TIMEOUT_MS;
+  process.env.OPSORCH_CORE_TIMEOUT_MS = '20';
+
+  const restore = mock.method(global, 'fetch', (_url: any, init: any) => {
+    return new Promise((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    });
+  });
+
+  try {
+    const error = await coreRequest('/incidents/inc-1', 'GET').catch((e: unknown) => e);
+    assert.ok(error instanceof CoreError);
+    assert.equal(error.kind, 'timeout');
+    assert.equal(error.retryable, false);
+  } finally {
+    restore.mock.restore();
+    if (previousTimeout === undefined) {
+      delete process.env.OPSORCH_CORE_TIMEOUT_MS;
+    } else {
+      process.env.OPSORCH_CORE_TIMEOUT_MS = previousTimeout;
+    }
+  }
+});
+
+test('coreRequest maps failures while reading the response body', async () => {
+  // Like the real fetch, the body stream fails once the request signal aborts.
+  const stalledBody = (signal: AbortSignal, status = 200) =>
+    new Response(
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('['));
+          signal.addEventListener('abort', () => controller.error(new DOMException('aborted', 'AbortError')));
+        },
+      }),
+      { status }
+    );
+  let calls = 0;
+  let respond: (init: any) => Response = () => new Response('[]');
+  const restore = mock.method(global, 'fetch', async (_url: any, init: any) => {
+    calls++;
+    return respond(init);
+  });
+
+  try {
+    await withEnv({ OPSORCH_CORE_URL: sampleURL, OPSORCH_CORE_MAX_RETRIES: '1', OPSORCH_CORE_RETRY_BASE_MS: '1', OPSORCH_CORE_TIMEOUT_MS: '50' }, async () => {
+      respond = () =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode('['));
+              controller.error(new Error('socket hang up'));
+            },
+          }),
+          { status: 200 }
+        );
+      const dropped = await coreRequest('/incidents/inc-1', 'GET').catch((e: unknown) => e);
+      assert.ok(dropped instanceof CoreError);
+      assert.equal(dropped.kind, 'network');
+      assert.equal(dropped.retryable, true);
+      assert.match(dropped.message, /response interrupted: socket hang up/);
+      assert.equal(calls, 2);
+
+      respond = (init) => stalledBody(init.signal);
+      const stalled = await coreRequest('/incidents/inc-1', 'GET').catch((e: unknown) => e);
+      assert.ok(stalled instanceof CoreError);
+      assert.equal(stalled.kind, 'timeout');
+
+      const client = new AbortController();
+      respond = (init) => {
+        setTimeout(() => client.abort(), 5);
+        return stalledBody(init.signal, 500);
+      };
+      const cancelled = await runWithToolCall(client.signal, undefined, () => coreRequest('/incidents/inc-1', 'GET')).catch((e: unknown) => e);
+      assert.ok(cancelled instanceof CoreError);
+      assert.equal(cancelled.kind, 'cancelled');
+    });
+  } finally {
+    restore.mock.restore();
+  }
+});
+
+test('asToolError wraps unknown failures as internal errors', () => {
+  const result = asToolError(new Error('boom'));
+  assert.equal(result.isError, true);
+  assert.deepEqual(result.structuredContent, { error: { kind: 'internal', message: 'boom', retryable: false } });
+});
+
+test('tools return structured isError results when Core fails', async () => {
+  const core = () => respond({ message: 'Incident not found' }, 404);
+
+  await withCoreApp(sampleURL, core, async ({ callTool }) => {
+    const result = await callTool('get-incident', { id: 'inc-404' });
+    assert.equal(result.isError, true);
+    assert.equal(result.structuredContent.error.kind, 'not_found');
+    assert.equal(result.structuredContent.error.status, 404);
+    assert.equal(result.structuredContent.error.path, '/incidents/inc-404');
+  });
+});
@@ -0,0 +1,224 @@
+import assert from 'node:assert/strict';
+import { test, mock } from 'node:test';
+import { coreRequest } from '../src/index';
+import { parseConfig, runWithCoreTarget, setActiveConfig, type ResolvedConfig } from '../src/config';
+import { federatedList, federatedPaginate, routeById, splitOriginId, tagItem } from '../src/federation';
+import { getCoreToken, runWithCoreCredentials } from '../src/identity';
+import { byNewest } from '../src/pagination';
+import { respond, withEnv, withHttpApp, withMockCore } from './helpers';
+
+const federated: ResolvedConfig = {
+  profile: 'us',
+  core: { url: 'http://us.core' },
+  federation: [
+    { id: 'us', core: { url: 'http://us.core', token: 'us-token', retry: { maxRetries: 0 } } },
+    { id: 'eu', core: { url: 'http://eu.core', token: 'eu-token', retry: { maxRetries: 0 } } },
+  ],
+};
+
+function withFederation(handler: (url: string, init: any) => Response | Promise<Response>) {
+  const previousURL = process.env.OPSORCH_CORE_URL;
+  process.env.OPSORCH_CORE_URL = 'http://ignored.core';
+  setActiveConfig(federated);
+  const restore = mock.method(global, 'fetch', async (url: any, init: any) => handler(String(url), init));
+  return () => {
+    restore.mock.restore();
+    setActiveConfig(undefined);
+    if (previousURL === undefined) {
+      delete process.env.OPSORCH_CORE_URL;
+    } else {
+      process.env.OPSORCH_CORE_URL = previousURL;
+    }
+  };
+}
+
+test('parseConfig resolves federation profiles and rejects unknown ones', () => {
+  const profiles = { us: { url: 'http://us.core', token: 'a' }, eu: { url: 'http://eu.core' } };
+  const config = parseConfig({ profiles, defaultProfile: 'us', federation: { profiles: ['us', 'eu'] } }, { filePath: 'mcp.json' });
+  assert.deepEqual(
+    config.federation?.map((target) => [target.id, target.core.url, target.core.token]),
+    [
+      ['us', 'http://us.core', 'a'],
+      ['eu', 'http://eu.core', undefined],
+    ]
+  );
+  assert.throws(
+    () => parseConfig({ profiles, defaultProfile: 'us', federation: { profiles: ['us', 'apac'] } }, { filePath: 'mcp.json' }),
+    /Federation profile apac is not defined/
+  );
+});
+
+test('tagItem prefixes ids and records the origin in metadata', () => {
+  assert.deepEqual(tagItem({ id: 'INC-1', metadata: { sev: 1 } }, 'eu'), { id: 'eu:INC-1', metadata: { sev: 1, origin: 'eu' } });
+  assert.deepEqual(tagItem({ name: 'cpu' }, 'us'), { name: 'cpu', metadata: { origin: 'us' } });
+  assert.equal(splitOriginId('eu:INC-1:child', federated.federation!).localId, 'INC-1:child');
+  assert.throws(() => splitOriginId('INC-1', federated.federation!), /no known origin prefix/);
+});
+
+test('a forwarded caller token only reaches the Core of the selected profile', () => {
+  setActiveConfig(federated);
+  try {
+    const [us, eu] = federated.federation!;
+    runWithCoreCredentials({ token: 'caller-token' }, () => {
+      assert.equal(runWithCoreTarget(us!, getCoreToken), 'caller-token');
+      assert.equal(runWithCoreTarget(eu!, getCoreToken), 'eu-token');
+    });
+  } finally {
+    setActiveConfig(undefined);
+  }
+});
+
+test('federatedPaginate merges Cores in order and resumes only Cores with more results', async () => {
+  const tokens = new Map<string, string | null>();
+  const restore = withFederation((url, init) => {
+    tokens.set(new URL(url).host, new Headers(init?.headers).get('authorization'));
+    if (url.startsWith('http://us.core')) {
+      return new Response(
+        JSON.stringify({
+          incidents: [{ id: 'A', createdAt: '2024-01-01T00:00:00Z' }],
+          nextCursor: 'us-next',
+        }),
+        { status: 200 }
+      );
+    }
+    return new Response(JSON.stringify({ incidents: [{ id: 'B', createdAt: '2024-02-01T00:00:00Z' }], nextCursor: null }), { status: 200 });
+  });
+
+  try {
+    const first = await federatedPaginate((body) => coreRequest('/incidents/query', 'POST', body), { key: 'incidents', order: byNewest('createdAt') }, { limit: 1 });
+    assert.deepEqual(
+      (first.data.incidents as { id: string }[]).map((item) => item.id),
+      ['eu:B', 'us:A']
+    );
+    assert.equal(first.data.hasMore, true);
+    assert.deepEqual(Object.fromEntries(tokens), { 'us.core': 'Bearer us-token', 'eu.core': 'Bearer eu-token' });
+    assert.deepEqual(first.federation?.origins, [
+      { origin: 'us', ok: true, count: 1 },
+      { origin: 'eu', ok: true, count: 1 },
+    ]);
+
+    // The eu Core is exhausted, so the next page only asks us.
+    tokens.clear();
+    await federatedPaginate(
+      (body) => coreRequest('/incidents/query', 'POST', body),
+      { key: 'incidents', order: byNewest('createdAt') },
+      { limit: 1, cursor: first.data.nextCursor as string }
+    );
+    assert.deepEqual([...tokens.keys()], ['us.core']);
+  } finally {
+    restore();
+  }
+});
+
+test('federatedList keeps partial results and fails only when every Core fails', async () => {
+  let euDown = true;
+  const restore = withFederation((url) => {
+    if (url.startsWith('http://eu.core') && euDown) {
+      return new Response(JSON.stringify({ message: 'bad request' }), { status: 400 });
+    }
+    if (url.startsWith('http://us.core')) {
+      return new Response(JSON.stringify({ message: 'bad request' }), { status: 400 });
+    }
+    return new Response(JSON.stringify([{ id: 'plan-1', title: 'Restart' }]), { status: 200 });
+  });
+
+  try {
+    await assert.rejects(() => federatedList(() => coreRequest('/orchestration/plans/query', 'POST', {})), /OpsOrch Core 400/);
+
+    euDown = false;
+    const result = await federatedList(() => coreRequest('/orchestration/plans/query', 'POST', {}));
+    assert.deepEqual(result.data, [{ id: 'eu:plan-1', title: 'Restart', metadata: { origin: 'eu' } }]);
+    assert.equal(result.federation?.origins[0]?.ok, false);
+    assert.equal(result.federation?.origins[0]?.error?.kind, 'bad_request');
+  } finally {
+    restore();
+  }
+});
+
+test('routeById sends get-* calls to the Core named by the id prefix', async () => {
+  let capturedUrl = '';
+  const restore = withFederation((url) => {
+    capturedUrl = url;
+    return new Response(JSON.stringify({ id: 'INC-7', title: 'Checkout down' }), { status: 200 });
+  });
+
+  try {
+    const incident = await routeById('eu:INC-7', (id) => coreRequest(`/incidents/${encodeURIComponent(id)}`, 'GET'));
+    assert.equal(capturedUrl, 'http://eu.core/incidents/INC-7');
+    assert.deepEqual(incident, { id: 'eu:INC-7', title: 'Checkout down', metadata: { origin: 'eu' } });
+  } finally {
+    restore();
+  }
+});
+
+test('investigate-incident and correlate-deployments tag nested records with their origin', async () => {
+  const incident = { id: 'INC-7', title: 'Checkout down', status: 'open', severity: 'sev1', service: 'checkout', createdAt: '2024-03-01T12:00:00Z', updatedAt: '2024-03-01T12:00:00Z' };
+  const core = (path: string) => {
+    switch (path) {
+      case '/incidents/INC-7':
+        return respond(incident);
+      case '/incidents/INC-7/timeline':
+        return respond([{ id: 't1', incidentId: 'INC-7', at: '2024-03-01T12:01:00Z', kind: 'note', body: 'paged' }]);
+      case '/alerts/query':
+        return respond([{ id: 'a1', status: 'firing', severity: 'critical', title: 'High 5xx', createdAt: '2024-03-01T11:55:00Z', updatedAt: '2024-03-01T11:55:00Z' }]);
+      case '/deployments/query':
+        return respond([{ id: 'd1', service: 'checkout', status: 'succeeded', startedAt: '2024-03-01T11:40:00Z', finishedAt: '2024-03-01T11:45:00Z' }]);
+      case '/services/query':
+        return respond([]);
+      default:
+        return respond({ entries: [] });
+    }
+  };
+
+  setActiveConfig(federated);
+  try {
+    await withMockCore('http://eu.core', core, () =>
+      withHttpApp(async ({ callTool }) => {
+        const report = (await callTool('investigate-incident', { id: 'eu:INC-7' })).structuredContent;
+        assert.equal(report.incident.id, 'eu:INC-7');
+        assert.deepEqual(
+          [report.timeline.data[0].id, report.alerts.data[0].id, report.deployments.data[0].id],
+          ['eu:t1', 'eu:a1', 'eu:d1']
+        );
+        assert.equal(report.alerts.data[0].metadata.origin, 'eu');
+
+        const correlation = (await callTool('correlate-deployments', { incidentId: 'eu:INC-7', dependencies: [] })).structuredContent;
+        assert.deepEqual(
+          (correlation.deployments as { deployment: { id: string } }[]).map((entry) => entry.deployment.id),
+          ['eu:d1']
+        );
+      })
+    );
+  } finally {
+    setActiveConfig(undefined);
+  }
+});
+
+test('ticket writes send an incident id to its own Core without the origin prefix', async () => {
+  const ticket = { id: 'T-1', title: 'Follow up', status: 'open', createdAt: '2024-03-01T12:00:00Z', updatedAt: '2024-03-01T12:00:00Z' };
+  const calls: { url: string; body: Record<string, unknown> | undefined }[] = [];
+  const restore = withFederation((url, init) => {
+    calls.push({ url, body: init.body ? JSON.parse(init.body) : undefined });
+    return url.endsWith('/timeline') ? respond({ id: 'tl-1', incidentId: 'INC-7', at: '2024-03-01T12:00:00Z', kind: 'ticket', body: 'linked' }) : respond(ticket);
+  });
+
+  try {
+    await withEnv({ OPSORCH_ENABLE_WRITES: '1' }, () =>
+      withHttpApp(async ({ callTool }) => {
+        await callTool('create-ticket', { title: 'Follow up', incidentId: 'eu:INC-7', idempotencyKey: 'federated-create' });
+        await callTool('update-ticket', { id: 'us:T-1', incidentId: 'eu:INC-7' });
+      })
+    );
+    assert.deepEqual(
+      calls.map((call) => [call.url, (call.body?.fields as Record<string, unknown> | undefined)?.incidentId]),
+      [
+        ['http://eu.core/tickets', 'INC-7'],
+        ['http://eu.core/incidents/INC-7/timeline', undefined],
+        ['http://us.core/tickets/T-1', 'eu:INC-7'],
+        ['http://eu.core/incidents/INC-7/timeline', undefined],
+      ]
+    );
+  } finally {
+    restore();
+  }
+});
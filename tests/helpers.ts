@@ -0,0 +1,121 @@
+import { mock } from 'node:test';
+import type { AddressInfo } from 'node:net';
+import { z } from 'zod';
+import { createHttpApp } from '../src/index';
+
+// Captured before any test stubs `global.fetch`, so calls to the app under test always hit the network.
+export const realFetch = global.fetch;
+
+export const mcpHeaders = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+/** Sets environment variables for the duration of `fn` (`undefined` unsets one), then restores the previous values. */
+export async function withEnv<T>(overrides: Record<string, string | undefined>, fn: () => Promise<T> | T): Promise<T> {
+  const previous: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(overrides)) {
+    previous[key] = process.env[key];
+    setEnv(key, value);
+  }
+  try {
+    return await fn();
+  } finally {
+    for (const [key, value] of Object.entries(previous)) {
+      setEnv(key, value);
+    }
+  }
+}
+
+function setEnv(key: string, value: string | undefined): void {
+  if (value === undefined) {
+    delete process.env[key];
+  } else {
+    process.env[key] = value;
+  }
+}
+
+export function respond(body: unknown, status = 200, headers?: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), { status, ...(headers ? { headers } : {}) });
+}
+
+// Answers one Core request; `path` is relative to the Core URL and includes any query string.
+export type CoreHandler = (path: string, init: any) => Response | Promise<Response>;
+
+/** Stubs `global.fetch` for requests under `coreURL` while `fn` runs; everything else goes to the real fetch. */
+export async function withMockCore<T>(coreURL: string, handler: CoreHandler, fn: () => Promise<T>): Promise<T> {
+  const restore = mock.method(global, 'fetch', async (url: any, init: any) =>
+    String(url).startsWith(coreURL) ? handler(String(url).slice(coreURL.length), init) : realFetch(url, init)
+  );
+  try {
+    return await fn();
+  } finally {
+    restore.mock.restore();
+  }
+}
+
+/** Reads the JSON-RPC messages of an /mcp reply: an SSE stream for requests, or plain JSON when one is rejected. */
+export async function readMessages(response: Response): Promise<unknown[]> {
+  const text = await response.text();
+  const payloads = response.headers.get('content-type')?.startsWith('text/event-stream') ? [...text.matchAll(/^data: (.*)$/gm)].map((match) => match[1]!) : [text];
+  return payloads.flatMap((payload) => [JSON.parse(payload)].flat());
+}
+
+// The JSON-RPC response of an /mcp reply; any notifications streamed ahead of it are skipped.
+export async function readReply(response: Response): Promise<any> {
+  const messages = await readMessages(response);
+  return messages[messages.length - 1];
+}
+
+// Parses the `result` of an /mcp reply, e.g. with one of the SDK's result schemas.
+export async function readResult<T extends z.ZodTypeAny>(response: Response, schema: T): Promise<z.infer<T>> {
+  return schema.parse((await readReply(response)).result);
+}
+
+const rpcErrorSchema = z.object({ error: z.object({ code: z.number(), message: z.string() }) });
+
+// The JSON-RPC error of a rejected /mcp request.
+export async function readRpcError(response: Response): Promise<{ code: number; message: string }> {
+  return rpcErrorSchema.parse(await response.json()).error;
+}
+
+export type TestApp = ReturnType<typeof createHttpApp> & {
+  url: string;
+  // Posts one JSON-RPC request to /mcp and returns the raw HTTP response.
+  post(method: string, params?: Record<string, unknown>, headers?: Record<string, string>): Promise<Response>;
+  // Posts one JSON-RPC request to /mcp and returns the parsed JSON-RPC response.
+  rpc(method: string, params?: Record<string, unknown>, headers?: Record<string, string>): Promise<any>;
+  callTool(name: string, args?: Record<string, unknown>): Promise<any>;
+};
+
+/** Serves `createHttpApp()` on a free port while `fn` runs, then stops its sessions, poller, and listener. */
+export async function withHttpApp<T>(fn: (app: TestApp) => Promise<T>): Promise<T> {
+  const created = createHttpApp();
+  const server = created.app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}/mcp`;
+  let id = 0;
+  const post = (method: string, params?: Record<string, unknown>, headers: Record<string, string> = {}) =>
+    realFetch(url, {
+      method: 'POST',
+      headers: { ...mcpHeaders, ...headers },
+      body: JSON.stringify({ jsonrpc: '2.0', id: ++id, method, ...(params ? { params } : {}) }),
+    });
+  const rpc = async (method: string, params?: Record<string, unknown>, headers?: Record<string, string>) => readReply(await post(method, params, headers));
+  const callTool = async (name: string, args: Record<string, unknown> = {}) => (await rpc('tools/call', { name, arguments: args })).result;
+
+  try {
+    return await fn({ ...created, url, post, rpc, callTool });
+  } finally {
+    created.subscriptions.stop();
+    await created.sessions.stop();
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+/**
+ * The usual integration setup: points the server at a mocked Core (with a token and no retries unless `env`
+ * says otherwise) and serves it over HTTP while `fn` runs.
+ */
+export function withCoreApp<T>(coreURL: string, handler: CoreHandler, fn: (app: TestApp) => Promise<T>, env: Record<string, string | undefined> = {}): Promise<T> {
+  const values = { OPSORCH_CORE_URL: coreURL, OPSORCH_CORE_TOKEN: 'secret-token', OPSORCH_CORE_MAX_RETRIES: '0', ...env };
+  return withEnv(values, () => withMockCore(coreURL, handler, () => withHttpApp(fn)));
+}
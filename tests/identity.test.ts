@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { assertCoreAuthConfig, extractInboundToken, getCoreToken, runWithCoreCredentials, setTokenExchange } from '../src/identity';
+import { readReply, respond, withEnv, withHttpApp, withMockCore } from './helpers';
+
+const sampleURL = 'http://localhost:8080';
+
+test('extractInboundToken strips the bearer scheme only for Authorization', () => {
+  assert.equal(extractInboundToken('Bearer abc.def', 'authorization'), 'abc.def');
+  assert.equal(extractInboundToken('Basic xyz', 'authorization'), undefined);
+  assert.equal(extractInboundToken(' raw-token ', 'x-opsorch-token'), 'raw-token');
+  assert.equal(extractInboundToken(undefined, 'authorization'), undefined);
+});
+
+test('forwarded credentials take precedence over the static token', async () => {
+  await withEnv({ OPSORCH_CORE_TOKEN: 'static-token', OPSORCH_ALLOW_DEMO_TOKEN: undefined }, () => {
+    assert.equal(getCoreToken(), 'static-token');
+    runWithCoreCredentials({ token: 'caller-token' }, () => assert.equal(getCoreToken(), 'caller-token'));
+  });
+});
+
+test('startup fails without a Core token unless the demo token is allowed', async () => {
+  await withEnv({ OPSORCH_CORE_TOKEN: undefined, OPSORCH_CORE_AUTH_MODE: undefined, OPSORCH_ALLOW_DEMO_TOKEN: undefined }, () => {
+    assert.throws(() => assertCoreAuthConfig(), /OPSORCH_CORE_TOKEN is not set/);
+    assert.equal(getCoreToken(), undefined);
+  });
+  await withEnv({ OPSORCH_CORE_TOKEN: undefined, OPSORCH_CORE_AUTH_MODE: undefined, OPSORCH_ALLOW_DEMO_TOKEN: '1' }, () => {
+    assert.doesNotThrow(() => assertCoreAuthConfig());
+    assert.equal(getCoreToken(), 'demo');
+  });
+  await withEnv({ OPSORCH_CORE_TOKEN: undefined, OPSORCH_CORE_AUTH_MODE: 'passthrough', OPSORCH_ALLOW_DEMO_TOKEN: undefined }, () => {
+    assert.doesNotThrow(() => assertCoreAuthConfig());
+  });
+});
+
+test('pass-through mode forwards the caller token to Core and rejects anonymous calls', async () => {
+  const forwarded: (string | null)[] = [];
+  const core = (_path: string, init: any) => {
+    forwarded.push(new Headers(init?.headers).get('authorization'));
+    return respond({ message: 'missing' }, 404);
+  };
+
+  await withEnv({ OPSORCH_CORE_URL: sampleURL, OPSORCH_CORE_TOKEN: 'static-token', OPSORCH_CORE_AUTH_MODE: 'passthrough' }, () =>
+    withMockCore(sampleURL, core, () =>
+      withHttpApp(async ({ post }) => {
+        const getIncident = (headers: Record<string, string>) => post('tools/call', { name: 'get-incident', arguments: { id: 'inc-1' } }, headers);
+        try {
+          const anonymous = await getIncident({});
+          assert.equal(anonymous.status, 401);
+
+          const ok = await getIncident({ Authorization: 'Bearer caller-a' });
+          assert.equal(ok.status, 200);
+          await readReply(ok);
+
+          setTokenExchange((token) => `exchanged-${token}`);
+          await readReply(await getIncident({ Authorization: 'Bearer caller-b' }));
+
+          assert.deepEqual(forwarded, ['Bearer caller-a', 'Bearer exchanged-caller-b']);
+        } finally {
+          setTokenExchange(undefined);
+        }
+      })
+    )
+  );
+});
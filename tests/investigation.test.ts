@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { respond, withCoreApp, withEnv } from './helpers';
+
+const coreURL = 'http://core.investigation.test';
+
+test('investigate-incident bundles evidence and isolates failing sections', async () => {
+  const requests: Record<string, any> = {};
+  const core = (path: string, init: any) => {
+    requests[path] = init?.body ? JSON.parse(init.body) : null;
+    switch (path) {
+      case '/incidents/INC-1':
+        return respond({
+          id: 'INC-1',
+          title: 'Checkout 500s',
+          status: 'open',
+          severity: 'sev1',
+          service: 'checkout',
+          createdAt: '2024-03-01T12:00:00Z',
+          updatedAt: '2024-03-01T12:05:00Z',
+        });
+      case '/incidents/INC-1/timeline':
+        return respond([]);
+      case '/alerts/query':
+        return respond([
+          { id: 'a1', status: 'firing', severity: 'critical', title: 'High 5xx', createdAt: '2024-03-01T11:55:00Z', updatedAt: '2024-03-01T11:55:00Z' },
+          { id: 'a0', status: 'resolved', severity: 'warning', title: 'Old', createdAt: '2024-02-01T00:00:00Z', updatedAt: '2024-02-01T00:00:00Z' },
+        ]);
+      case '/deployments/query':
+        return respond({ message: 'deploy provider down' }, 503);
+      case '/logs/query':
+        return respond({ entries: [{ timestamp: '2024-03-01T11:59:00Z', message: 'upstream timeout' }] });
+      default:
+        return respond([]);
+    }
+  };
+
+  await withCoreApp(coreURL, core, async ({ callTool }) => {
+    const result = await callTool('investigate-incident', { id: 'INC-1' });
+    const report = result.structuredContent;
+
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(report.window, { start: '2024-03-01T11:00:00.000Z', end: '2024-03-01T12:30:00.000Z' });
+    assert.deepEqual(requests['/logs/query'].scope, { service: 'checkout' });
+    assert.equal(requests['/logs/query'].start, '2024-03-01T11:00:00.000Z');
+    assert.deepEqual(
+      report.alerts.data.map((alert: any) => alert.id),
+      ['a1']
+    );
+    assert.equal(report.deployments.ok, false);
+    assert.equal(report.deployments.error.kind, 'provider_unavailable');
+    assert.equal(report.logs.data.length, 1);
+    assert.equal(report.metrics.ok, true);
+    assert.match(result.content[0].text, /- deployments: unavailable \(OpsOrch Core 503: deploy provider down\)/);
+  });
+});
+
+test('investigate-incident pages back to an older incident window and flags truncated sections', async () => {
+  const at = (day: number, i: number) => new Date(Date.parse(`2024-03-${String(day).padStart(2, '0')}T12:00:00Z`) - i * 60_000).toISOString();
+  // Newest first: 120 alerts after the incident, two inside its window, then older history.
+  const alerts = [
+    ...Array.from({ length: 120 }, (_, i) => ({ id: `new-${i}`, status: 'resolved', severity: 'info', title: 'Later', createdAt: at(20, i), updatedAt: at(20, i) })),
+    { id: 'in-1', status: 'firing', severity: 'critical', title: 'High 5xx', createdAt: '2024-03-01T11:55:00Z', updatedAt: '2024-03-01T11:55:00Z' },
+    { id: 'in-2', status: 'firing', severity: 'warning', title: 'Latency', createdAt: '2024-03-01T11:30:00Z', updatedAt: '2024-03-01T11:30:00Z' },
+    { id: 'old', status: 'resolved', severity: 'info', title: 'Old', createdAt: '2024-02-01T00:00:00Z', updatedAt: '2024-02-01T00:00:00Z' },
+  ];
+  const alertLimits: number[] = [];
+  const core = (path: string, init: any) => {
+    switch (path) {
+      case '/incidents/INC-2':
+        return respond({ id: 'INC-2', title: 'Checkout 500s', status: 'resolved', severity: 'sev2', service: 'checkout', createdAt: '2024-03-01T12:00:00Z', updatedAt: '2024-03-02T12:00:00Z' });
+      case '/alerts/query': {
+        const { limit } = JSON.parse(init.body);
+        alertLimits.push(limit);
+        return respond(alerts.slice(0, limit));
+      }
+      case '/logs/query':
+        return respond({ entries: [{ timestamp: '2024-03-01T11:59:00Z', message: 'upstream timeout' }], nextCursor: 'logs-2' });
+      default:
+        return respond([]);
+    }
+  };
+
+  await withCoreApp(coreURL, core, async ({ callTool }) => {
+    const result = await callTool('investigate-incident', { id: 'INC-2' });
+    const report = result.structuredContent;
+    assert.deepEqual(
+      report.alerts.data.map((alert: any) => alert.id),
+      ['in-1', 'in-2']
+    );
+    assert.equal(report.alerts.hasMore, undefined);
+    // Each follow-up request at least doubles, so paging back re-reads earlier alerts a bounded number of times.
+    assert.deepEqual(alertLimits, [50, 101, 202]);
+    assert.match(result.content[0].text, /- alerts: 2 item\(s\)\n/);
+    assert.equal(report.logs.hasMore, true);
+    assert.match(result.content[0].text, /- logs: 1 item\(s\) \(truncated; the window may hold more\)/);
+
+    const capped = await withEnv({ OPSORCH_FETCH_ALL_MAX_ITEMS: '100' }, () => callTool('investigate-incident', { id: 'INC-2' }));
+    assert.deepEqual(capped.structuredContent.alerts.data, []);
+    assert.equal(capped.structuredContent.alerts.hasMore, true);
+    assert.match(capped.content[0].text, /- alerts: 0 item\(s\) \(truncated; the window may hold more\)/);
+
+    const limited = await callTool('investigate-incident', { id: 'INC-2', limit: 1 });
+    assert.deepEqual(
+      limited.structuredContent.alerts.data.map((alert: any) => alert.id),
+      ['in-1']
+    );
+    assert.equal(limited.structuredContent.alerts.hasMore, true);
+  });
+});
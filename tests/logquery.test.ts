@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { QuerySyntaxError } from '../src/errors';
+import { parseLogQuery } from '../src/logquery';
+import { respond, withCoreApp } from './helpers';
+
+const coreURL = 'http://core.logquery.test';
+
+test('parseLogQuery compiles fields, severities, and search text', () => {
+  assert.deepEqual(parseLogQuery('service:checkout severity:error,warn status>=500 "timeout" -env:staging upstream region="us east"'), {
+    search: 'timeout upstream',
+    filters: [
+      { field: 'service', operator: '=', value: 'checkout' },
+      { field: 'status', operator: '>=', value: '500' },
+      { field: 'env', operator: '!=', value: 'staging' },
+      { field: 'region', operator: '=', value: 'us east' },
+    ],
+    severityIn: ['error', 'warn'],
+  });
+  assert.deepEqual(parseLogQuery('"said \\"no\\""'), { search: 'said "no"' });
+  assert.deepEqual(parseLogQuery('   '), {});
+});
+
+test('parseLogQuery points at the offending column', () => {
+  const cases: [string, number, RegExp][] = [
+    ['service:checkout status>=', 26, /missing a value after status>=/],
+    ['service:checkout "timeout', 18, /unterminated quote/],
+    ['status!500', 7, /unknown operator/],
+    ['9lives:yes', 1, /invalid field name "9lives"/],
+    ['-severity:error', 2, /only supports severity:level/],
+    ['-latency>5', 1, /cannot negate the > operator/],
+    ['-timeout', 1, /can only negate field terms/],
+  ];
+  for (const [q, column, message] of cases) {
+    assert.throws(
+      () => parseLogQuery(q),
+      (error: unknown) => {
+        assert.ok(error instanceof QuerySyntaxError, q);
+        assert.equal(error.column, column, q);
+        assert.match(error.message, message);
+        assert.ok(error.message.endsWith(`\n  ${q}\n  ${' '.repeat(column - 1)}^`), q);
+        return true;
+      }
+    );
+  }
+});
+
+test('query-logs sends the compiled expression and reports parse errors with their column', async () => {
+  let sent: any;
+  const core = (_path: string, init: any) => {
+    sent = JSON.parse(init.body);
+    return respond({ entries: [] });
+  };
+
+  await withCoreApp(coreURL, core, async ({ callTool }) => {
+    const call = (args: Record<string, unknown>) => callTool('query-logs', args);
+    const range = { start: '2024-03-01T11:00:00Z', end: '2024-03-01T12:00:00Z' };
+    const ok = await call({ ...range, q: 'severity:error "timeout"' });
+    assert.equal(ok.isError, undefined);
+    assert.equal(sent.q, undefined);
+    assert.deepEqual(sent.expression, { search: 'timeout', severityIn: ['error'] });
+
+    const bad = await call({ ...range, q: 'status>=' });
+    assert.equal(bad.isError, true);
+    assert.equal(bad.structuredContent.error.kind, 'bad_request');
+    assert.equal(bad.structuredContent.error.column, 9);
+
+    const both = await call({ ...range, q: 'timeout', expression: { search: 'timeout' } });
+    assert.match(both.structuredContent.error.message, /either q or expression/);
+  });
+});
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { clusterLogs, maskMessage } from '../src/logs';
+import { respond, withCoreApp } from './helpers';
+
+const coreURL = 'http://core.logs.test';
+
+test('maskMessage masks variable tokens', () => {
+  assert.equal(
+    maskMessage('request 3f2b8c1e-9d4a-4f6b-8e2a-1c3d5e7f9a0b from 10.0.4.17:8443 failed after 250ms'),
+    'request <uuid> from <ip> failed after <num>ms'
+  );
+  assert.equal(maskMessage('user_1234 hit   INC-77 at 2024-03-01T12:00:00Z (trace deadbeef1234)'), '<id> hit <id> at <ts> (trace <hex>)');
+  assert.equal(maskMessage('http2 stream reset'), 'http2 stream reset');
+});
+
+test('clusterLogs groups by template with counts, severities, and samples', () => {
+  const entries = [
+    { timestamp: '2024-03-01T12:00:03Z', message: 'timeout calling payments after 3000ms', severity: 'ERROR' },
+    { timestamp: '2024-03-01T12:00:01Z', message: 'timeout calling payments after 3001ms', severity: 'error' },
+    { timestamp: '2024-03-01T12:00:02Z', message: 'timeout calling payments after 3000ms', severity: 'warn' },
+    { timestamp: '2024-03-01T12:00:05Z', message: 'disk quota exceeded on /var/lib/db' },
+  ];
+
+  const byVolume = clusterLogs(entries, { samples: 5 });
+  assert.deepEqual(byVolume[0], {
+    template: 'timeout calling payments after <num>ms',
+    count: 3,
+    severities: { error: 2, warn: 1 },
+    firstSeen: '2024-03-01T12:00:01Z',
+    lastSeen: '2024-03-01T12:00:03Z',
+    samples: ['timeout calling payments after 3000ms', 'timeout calling payments after 3001ms'],
+  });
+  assert.deepEqual(byVolume[1]!.severities, { unknown: 1 });
+
+  const byRarity = clusterLogs(entries, { order: 'rarity', samples: 0 });
+  assert.equal(byRarity[0]!.template, 'disk quota exceeded on /var/lib/db');
+  assert.deepEqual(byRarity[0]!.samples, []);
+});
+
+test('cluster-logs walks all pages and returns templates', async () => {
+  const core = (_path: string, init: any) => {
+    const body = JSON.parse(init.body);
+    const entries = body.cursor
+      ? [{ timestamp: '2024-03-01T12:00:00Z', message: 'connection refused by 10.1.1.1', severity: 'error' }]
+      : Array.from({ length: 4 }, (_, i) => ({ timestamp: `2024-03-01T12:0${i + 1}:00Z`, message: `GET /orders/${i} 500`, severity: 'error' }));
+    return respond({ entries, ...(body.cursor ? {} : { nextCursor: 'page-2' }) });
+  };
+
+  await withCoreApp(coreURL, core, async ({ callTool }) => {
+    const args = { start: '2024-03-01T11:00:00Z', end: '2024-03-01T13:00:00Z', order: 'rarity', maxClusters: 5 };
+    const result = await callTool('cluster-logs', args);
+    const report = result.structuredContent;
+
+    assert.equal(result.isError, undefined);
+    assert.equal(report.totalEntries, 5);
+    assert.equal(report.hasMore, false);
+    assert.deepEqual(
+      report.clusters.map((cluster: any) => [cluster.template, cluster.count]),
+      [
+        ['connection refused by <ip>', 1],
+        ['GET /orders/<num> <num>', 4],
+      ]
+    );
+    assert.match(result.content[0].text, /^5 entries in 2 template\(s\):\n1x connection refused by <ip>\n4x GET/);
+  });
+});
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { sparkline, summarizeSeries } from '../src/metrics';
+import { respond, withCoreApp } from './helpers';
+
+const coreURL = 'http://core.metrics.test';
+
+function minutes(values: number[], start = Date.parse('2024-03-01T12:00:00Z')) {
+  return values.map((value, i) => ({ timestamp: new Date(start + i * 60_000).toISOString(), value }));
+}
+
+test('summarizeSeries reports distribution, last value, and trend', () => {
+  const summary = summarizeSeries(minutes([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]));
+
+  assert.equal(summary.count, 11);
+  assert.deepEqual(summary.min, { timestamp: '2024-03-01T12:00:00.000Z', value: 1 });
+  assert.deepEqual(summary.last, { timestamp: '2024-03-01T12:10:00.000Z', value: 11 });
+  assert.equal(summary.mean, 6);
+  assert.equal(summary.p50, 6);
+  assert.equal(summary.p95, 10.5);
+  assert.deepEqual(summary.trend, { slopePerHour: 60, direction: 'rising' });
+  assert.deepEqual(summary.spikes, []);
+  assert.equal(summary.sparkline, undefined);
+});
+
+test('summarizeSeries finds spikes and level shifts with their timestamps', () => {
+  const spiky = summarizeSeries(minutes([10, 11, 10, 9, 10, 95, 10, 11, 9, 10]));
+  assert.deepEqual(
+    spiky.spikes!.map((spike) => [spike.timestamp, spike.value]),
+    [['2024-03-01T12:05:00.000Z', 95]]
+  );
+  assert.deepEqual(spiky.changePoints, []);
+
+  const shifted = summarizeSeries(minutes([5, 6, 5, 4, 5, 6, 40, 41, 39, 40, 41, 40]));
+  assert.deepEqual(shifted.changePoints, [{ timestamp: '2024-03-01T12:06:00.000Z', before: 5.16667, after: 40.1667 }]);
+  assert.deepEqual(shifted.spikes, []);
+});
+
+test('summarizeSeries orders points and handles empty series', () => {
+  assert.deepEqual(summarizeSeries([]), { count: 0 });
+  const summary = summarizeSeries([
+    { timestamp: '2024-03-01T12:02:00Z', value: 3 },
+    { timestamp: '2024-03-01T12:00:00Z', value: 1 },
+  ]);
+  assert.deepEqual(summary.last, { timestamp: '2024-03-01T12:02:00Z', value: 3 });
+});
+
+test('sparkline downsamples to the requested width', () => {
+  assert.equal(sparkline([0, 0, 7, 7, 14, 14], 3), '▁▅█');
+  assert.equal(sparkline([2, 2, 2], 10), '▁▁▁');
+});
+
+test('summarize-metrics returns summaries instead of raw points', async () => {
+  let sent: any;
+  const core = (_path: string, init: any) => {
+    sent = JSON.parse(init.body);
+    return respond([{ name: 'http_errors', labels: { code: '500' }, points: minutes([1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 50]) }]);
+  };
+
+  await withCoreApp(coreURL, core, async ({ callTool }) => {
+    const args = { start: '2024-03-01T12:00:00Z', end: '2024-03-01T13:00:00Z', step: 60, sparklineWidth: 12 };
+    const result = await callTool('summarize-metrics', args);
+    const [series] = result.structuredContent;
+
+    assert.equal(result.isError, undefined);
+    assert.equal(sent.sparklineWidth, undefined);
+    assert.equal(series.points, undefined);
+    assert.equal(series.summary.max.value, 50);
+    assert.equal(series.summary.sparkline, '▁▁▁▁▁▁▁▁▁▁▁█');
+    assert.match(result.content[0].text, /^http_errors\{code=500\}: 12 points; .*spikes at 2024-03-01T12:11:00\.000Z \(50\)/);
+  });
+});
@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { runWithCoreCredentials } from '../src/identity';
+import { describeCaller, idempotencyScope, isWriteEnabled } from '../src/mutations';
+import { respond, withCoreApp, withEnv } from './helpers';
+
+const coreURL = 'http://core.mutations.test';
+
+const incident = {
+  id: 'INC-9',
+  title: 'Checkout errors',
+  status: 'mitigated',
+  severity: 'sev2',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T01:00:00Z',
+};
+
+async function withWriteServer(
+  run: (callTool: (name: string, args: Record<string, unknown>) => Promise<any>, coreCalls: any[]) => Promise<void>,
+  reply: (url: string) => unknown = () => incident
+) {
+  const coreCalls: any[] = [];
+  const core = (path: string, init: any) => {
+    const idempotencyKey = new Headers(init?.headers).get('idempotency-key');
+    coreCalls.push({
+      url: `${coreURL}${path}`,
+      method: init?.method,
+      body: init?.body ? JSON.parse(init.body) : undefined,
+      ...(idempotencyKey ? { idempotencyKey } : {}),
+    });
+    const body = reply(`${coreURL}${path}`);
+    return body instanceof Response ? body : respond(body);
+  };
+
+  await withCoreApp(coreURL, core, ({ callTool }) => run(callTool, coreCalls), { OPSORCH_ENABLE_WRITES: '1' });
+}
+
+test('writes are disabled unless explicitly enabled', () =>
+  withEnv({ OPSORCH_ENABLE_WRITES: undefined }, () => {
+    assert.equal(isWriteEnabled(), false);
+    process.env.OPSORCH_ENABLE_WRITES = 'true';
+    assert.equal(isWriteEnabled(), true);
+    process.env.OPSORCH_ENABLE_WRITES = '0';
+    assert.equal(isWriteEnabled(), false);
+  }));
+
+test('describeCaller uses the authenticated principal when there is one', () => {
+  assert.deepEqual(describeCaller({ token: 't', clientId: 'oncall', scopes: [], extra: { principalType: 'jwt' } }), { subject: 'oncall', type: 'jwt' });
+  assert.deepEqual(describeCaller(undefined), { subject: 'anonymous', type: 'unauthenticated' });
+});
+
+test('idempotencyScope keeps anonymous callers with different Core tokens or origins apart', () => {
+  const anonymous = describeCaller(undefined);
+  const scope = (token: string, origin?: string) =>
+    runWithCoreCredentials({ token }, () => idempotencyScope('create-ticket', anonymous, 'step-1', {}, origin).cacheKey);
+
+  assert.equal(scope('token-a'), scope('token-a'));
+  assert.notEqual(scope('token-a'), scope('token-b'));
+  assert.notEqual(scope('token-a', 'us'), scope('token-a', 'eu'));
+  assert.doesNotMatch(scope('token-a'), /token-a/);
+});
+
+test('update-incident dryRun returns the request without calling Core', async () => {
+  await withWriteServer(async (callTool, coreCalls) => {
+    const preview = await callTool('update-incident', { id: 'INC-9', status: 'mitigated', dryRun: true });
+    assert.equal(preview.isError, undefined);
+    assert.deepEqual(preview.structuredContent, {
+      dryRun: true,
+      request: {
+        method: 'PATCH',
+        url: `${coreURL}/incidents/INC-9`,
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer <redacted>' },
+        body: { status: 'mitigated' },
+      },
+    });
+    assert.equal(coreCalls.length, 0);
+
+    const applied = await callTool('update-incident', { id: 'INC-9', status: 'mitigated' });
+    assert.equal(applied.structuredContent.status, 'mitigated');
+    assert.deepEqual(coreCalls, [{ url: `${coreURL}/incidents/INC-9`, method: 'PATCH', body: { status: 'mitigated' } }]);
+
+    const empty = await callTool('update-incident', { id: 'INC-9' });
+    assert.equal(empty.isError, true);
+    assert.equal(empty.structuredContent.error.kind, 'bad_request');
+  });
+});
+
+test('create-ticket links the incident and replays identical retries', async () => {
+  const ticket = { id: 'T-1', key: 'OPS-1', title: 'Add checkout alert', status: 'open', createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' };
+  const reply = (url: string) =>
+    url.endsWith('/timeline') ? { id: 'tl-1', incidentId: 'INC-9', at: '2024-01-01T00:00:00Z', kind: 'ticket', body: 'linked' } : ticket;
+
+  await withWriteServer(async (callTool, coreCalls) => {
+    const args = { title: 'Add checkout alert', incidentId: 'INC-9', idempotencyKey: 'step-42' };
+    const first = await callTool('create-ticket', args);
+    assert.equal(first.structuredContent.key, 'OPS-1');
+    assert.deepEqual(first._meta['opsorch/incidentLink'], { incidentId: 'INC-9', ok: true });
+    assert.deepEqual(
+      coreCalls.map((call) => [call.method, call.url, call.idempotencyKey]),
+      [
+        ['POST', `${coreURL}/tickets`, 'step-42'],
+        ['POST', `${coreURL}/incidents/INC-9/timeline`, undefined],
+      ]
+    );
+    assert.deepEqual(coreCalls[0].body.fields, { incidentId: 'INC-9' });
+    assert.equal(coreCalls[1].body.metadata.ticketKey, 'OPS-1');
+
+    const retry = await callTool('create-ticket', args);
+    assert.equal(retry.structuredContent.id, 'T-1');
+    assert.equal(retry._meta['opsorch/idempotentReplay'], true);
+    assert.equal(coreCalls.length, 2);
+  }, reply);
+});
+
+test('create-ticket retries a failed incident link on replay and reports joined calls as replays', async () => {
+  const ticket = { id: 'T-2', key: 'OPS-2', title: 'Page the DBA', status: 'open', createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' };
+  let timelineCalls = 0;
+  const reply = (url: string) => {
+    if (url.endsWith('/comments')) {
+      return { id: 'c-1', ticketId: 'T-2', body: 'DBA paged', createdAt: '2024-01-01T00:00:00Z' };
+    }
+    if (!url.endsWith('/timeline')) {
+      return ticket;
+    }
+    timelineCalls++;
+    return timelineCalls === 1 ? respond({ message: 'timeline unavailable' }, 503) : { id: 'tl-2', incidentId: 'INC-9', at: '2024-01-01T00:00:00Z', kind: 'ticket', body: 'linked' };
+  };
+
+  await withWriteServer(async (callTool, coreCalls) => {
+    const args = { title: 'Page the DBA', incidentId: 'INC-9', idempotencyKey: 'step-43' };
+    const first = await callTool('create-ticket', args);
+    assert.equal(first._meta['opsorch/incidentLink'].ok, false);
+
+    const retry = await callTool('create-ticket', args);
+    assert.equal(retry._meta['opsorch/idempotentReplay'], true);
+    assert.deepEqual(retry._meta['opsorch/incidentLink'], { incidentId: 'INC-9', ok: true });
+
+    const again = await callTool('create-ticket', args);
+    assert.deepEqual(again._meta['opsorch/incidentLink'], { incidentId: 'INC-9', ok: true });
+    assert.deepEqual(
+      coreCalls.map((call) => call.url),
+      [`${coreURL}/tickets`, `${coreURL}/incidents/INC-9/timeline`, `${coreURL}/incidents/INC-9/timeline`]
+    );
+
+    const concurrent = await Promise.all([1, 2].map(() => callTool('comment-ticket', { id: 'T-2', body: 'DBA paged', idempotencyKey: 'step-44' })));
+    assert.deepEqual(
+      concurrent.map((result) => result._meta?.['opsorch/idempotentReplay'] === true).sort(),
+      [false, true]
+    );
+    assert.equal(coreCalls.filter((call) => call.url.endsWith('/comments')).length, 1);
+  }, reply);
+});
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { actionableSteps, analyzePlan, assertStepTransition, blockedSteps, mergeRunSteps } from '../src/orchestration';
+
+const steps = [
+  { id: 'page', title: 'Page on-call' },
+  { id: 'rollback', title: 'Roll back', dependsOn: ['page'] },
+  { id: 'comms', title: 'Status page update', dependsOn: ['page'] },
+  { id: 'verify', title: 'Verify recovery', dependsOn: ['rollback', 'comms'] },
+];
+
+test('a fresh run can only start with steps that have no prerequisites', () => {
+  assert.deepEqual(actionableSteps(steps, []), ['page']);
+  assert.deepEqual(blockedSteps(steps, []), [
+    { stepId: 'rollback', waitingOn: ['page'] },
+    { stepId: 'comms', waitingOn: ['page'] },
+    { stepId: 'verify', waitingOn: ['rollback', 'comms'] },
+  ]);
+  assert.deepEqual(
+    mergeRunSteps(steps, []).map((step) => step.status),
+    ['pending', 'pending', 'pending', 'pending']
+  );
+});
+
+test('completed and skipped prerequisites unlock dependent steps', () => {
+  const runSteps = [
+    { stepId: 'page', status: 'completed' },
+    { stepId: 'comms', status: 'skipped', note: 'no customer impact' },
+    { stepId: 'rollback', status: 'started' },
+  ];
+  assert.deepEqual(actionableSteps(steps, runSteps), []);
+  assert.deepEqual(blockedSteps(steps, runSteps), [{ stepId: 'verify', waitingOn: ['rollback'] }]);
+
+  assert.deepEqual(actionableSteps(steps, [...runSteps.slice(0, 2), { stepId: 'rollback', status: 'completed' }]), ['verify']);
+});
+
+test('assertStepTransition enforces dependsOn ordering', () => {
+  assert.throws(() => assertStepTransition(steps, [], 'verify', 'completed'), /cannot be completed before its prerequisites .*: rollback, comms/);
+  assert.throws(() => assertStepTransition(steps, [], 'rollback', 'started'), /prerequisites .*: page/);
+  assert.throws(() => assertStepTransition(steps, [{ stepId: 'page', status: 'completed' }], 'page', 'skipped'), /already completed/);
+  assert.throws(() => assertStepTransition(steps, [], 'unknown', 'started'), /not part of this plan/);
+
+  assert.doesNotThrow(() => assertStepTransition(steps, [], 'page', 'started'));
+  assert.doesNotThrow(() => assertStepTransition(steps, [], 'verify', 'skipped'));
+  assert.doesNotThrow(() => assertStepTransition(steps, [{ stepId: 'page', status: 'skipped' }], 'comms', 'completed'));
+});
+
+test('analyzePlan stages a valid plan and renders it', () => {
+  const analysis = analyzePlan(steps);
+  assert.equal(analysis.valid, true);
+  assert.deepEqual(analysis.stages, [['page'], ['rollback', 'comms'], ['verify']]);
+  assert.deepEqual(analysis.order, ['page', 'rollback', 'comms', 'verify']);
+  assert.match(analysis.mermaid, /^flowchart TD\n {2}s0\["page: Page on-call"\]/);
+  assert.match(analysis.mermaid, /s1 --> s3/);
+  assert.equal(analysis.outline.split('\n')[2], 'Stage 2 (parallel)');
+  assert.match(analysis.outline, / {2}- verify: Verify recovery \(after rollback, comms\)/);
+});
+
+test('analyzePlan reports missing references, cycles and the steps stuck behind them', () => {
+  const analysis = analyzePlan([
+    { id: 'a', title: 'Start' },
+    { id: 'b', dependsOn: ['c'] },
+    { id: 'c', dependsOn: ['b'] },
+    { id: 'd', dependsOn: ['ghost'] },
+    { id: 'e', dependsOn: ['b', 'a'] },
+    { id: 'a', title: 'Duplicate' },
+  ]);
+
+  assert.equal(analysis.valid, false);
+  assert.deepEqual(analysis.stages, [['a']]);
+  assert.deepEqual(
+    analysis.issues.map((issue) => [issue.type, issue.stepId]),
+    [
+      ['duplicate_step', 'a'],
+      ['missing_reference', 'd'],
+      ['cycle', 'b'],
+      ['cycle', 'c'],
+      ['unreachable', 'e'],
+    ]
+  );
+  assert.deepEqual(analysis.issues.find((issue) => issue.type === 'unreachable')?.steps, ['b']);
+  assert.match(analysis.mermaid, /m0\["missing: ghost"\]:::missing/);
+  assert.match(analysis.mermaid, /class s1,s2 cycle/);
+  assert.match(analysis.outline, /Cannot run\n {2}- d \(after ghost\)\n {6}depends on unknown step\(s\) ghost/);
+});
+
+test('analyzePlan treats a step that depends on itself as a cycle', () => {
+  const analysis = analyzePlan([{ id: 'loop', dependsOn: ['loop'] }]);
+  assert.deepEqual(analysis.issues.map((issue) => issue.type), ['cycle']);
+  assert.deepEqual(analysis.stages, []);
+});
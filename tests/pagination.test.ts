@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ToolInputError } from '../src/errors';
+import { byNewest, decodeCursor, encodeCursor, paginateQuery } from '../src/pagination';
+import { withEnv } from './helpers';
+
+const spec = { key: 'incidents', order: byNewest('createdAt') };
+
+function incidents(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `inc-${i}`,
+    createdAt: new Date(Date.UTC(2025, 0, 1, 0, i)).toISOString(),
+  }));
+}
+
+test('cursors round-trip and are bound to their query', () => {
+  const cursor = encodeCursor({ v: 1, q: 'abc', o: 20 });
+  assert.deepEqual(decodeCursor(cursor, 'abc'), { v: 1, q: 'abc', o: 20 });
+  assert.throws(() => decodeCursor(cursor, 'other'), ToolInputError);
+  assert.throws(() => decodeCursor('%%%', 'abc'), ToolInputError);
+});
+
+test('emulates offset pages when Core returns a plain array', async () => {
+  const all = incidents(5);
+  const bodies: Record<string, unknown>[] = [];
+  const request = async (body: Record<string, unknown>) => {
+    bodies.push(body);
+    return all.slice(0, body.limit as number);
+  };
+
+  const first = await paginateQuery(request, spec, { statuses: ['open'], limit: 2 });
+  assert.deepEqual((first.incidents as { id: string }[]).map((i) => i.id), ['inc-1', 'inc-0']);
+  assert.equal(first.hasMore, true);
+
+  const second = await paginateQuery(request, spec, { statuses: ['open'], limit: 2, cursor: first.nextCursor as string });
+  assert.equal(second.hasMore, true);
+  assert.deepEqual(bodies[1], { statuses: ['open'], limit: 5 });
+
+  const third = await paginateQuery(request, spec, { statuses: ['open'], limit: 2, cursor: second.nextCursor as string });
+  assert.deepEqual((third.incidents as { id: string }[]).map((i) => i.id), ['inc-4']);
+  assert.equal(third.hasMore, false);
+  assert.equal(third.nextCursor, undefined);
+});
+
+test('emulated ordering is stable even when Core ignores limit', async () => {
+  const all = incidents(4).reverse();
+  const request = async () => all;
+
+  const first = await paginateQuery(request, spec, { limit: 3 });
+  assert.deepEqual((first.incidents as { id: string }[]).map((i) => i.id), ['inc-3', 'inc-2', 'inc-1']);
+  const second = await paginateQuery(request, spec, { limit: 3, cursor: first.nextCursor as string });
+  assert.deepEqual((second.incidents as { id: string }[]).map((i) => i.id), ['inc-0']);
+  assert.equal(second.hasMore, false);
+});
+
+test('emulated pages return every row once when Core orders differently from the spec', async () => {
+  const all = incidents(6);
+  const request = async (body: Record<string, unknown>) => all.slice(0, body.limit as number);
+
+  const seen: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await paginateQuery(request, spec, { limit: 2, ...(cursor ? { cursor } : {}) });
+    seen.push(...(page.incidents as { id: string }[]).map((i) => i.id));
+    cursor = page.nextCursor as string | undefined;
+  } while (cursor);
+
+  assert.deepEqual([...seen].sort(), all.map((i) => i.id).sort());
+  assert.equal(seen.length, all.length);
+});
+
+test('passes Core-native cursors through', async () => {
+  const bodies: Record<string, unknown>[] = [];
+  const request = async (body: Record<string, unknown>) => {
+    bodies.push(body);
+    return body.cursor === 'core-page-2'
+      ? { incidents: incidents(1), nextCursor: null }
+      : { incidents: incidents(2), nextCursor: 'core-page-2' };
+  };
+
+  const first = await paginateQuery(request, spec, { limit: 2 });
+  assert.equal(first.hasMore, true);
+  const second = await paginateQuery(request, spec, { limit: 2, cursor: first.nextCursor as string });
+  assert.equal(bodies[1]?.cursor, 'core-page-2');
+  assert.equal(second.hasMore, false);
+});
+
+test('rejects a cursor reused with different filters', async () => {
+  const request = async () => incidents(3);
+  const first = await paginateQuery(request, spec, { query: 'checkout', limit: 1 });
+  await assert.rejects(paginateQuery(request, spec, { query: 'payments', limit: 1, cursor: first.nextCursor as string }), /different query/);
+});
+
+test('fetchAll walks pages up to the configured cap', async () => {
+  const previous = process.env.OPSORCH_FETCH_ALL_MAX_ITEMS;
+  process.env.OPSORCH_FETCH_ALL_MAX_ITEMS = '5';
+  let calls = 0;
+  const request = async (body: Record<string, unknown>) => {
+    calls++;
+    const offset = body.cursor ? Number(body.cursor) : 0;
+    const items = incidents(20).slice(offset, offset + (body.limit as number));
+    return { incidents: items, nextCursor: String(offset + items.length) };
+  };
+
+  try {
+    const result = await paginateQuery(request, spec, { limit: 2, fetchAll: true });
+    assert.equal((result.incidents as unknown[]).length, 5);
+    assert.equal(result.hasMore, true);
+    assert.equal(typeof result.nextCursor, 'string');
+    assert.equal(calls, 3);
+  } finally {
+    if (previous === undefined) {
+      delete process.env.OPSORCH_FETCH_ALL_MAX_ITEMS;
+    } else {
+      process.env.OPSORCH_FETCH_ALL_MAX_ITEMS = previous;
+    }
+  }
+});
+
+test('fetchAll without Core cursors reads each row a bounded number of times', () =>
+  withEnv({ OPSORCH_FETCH_ALL_MAX_ITEMS: '1000', OPSORCH_CORE_PAGINATION_OFFSET: undefined }, async () => {
+    const all = incidents(40);
+    const limits: number[] = [];
+    const request = async (body: Record<string, unknown>) => {
+      limits.push(body.limit as number);
+      return all.slice(0, body.limit as number);
+    };
+
+    const result = await paginateQuery(request, spec, { limit: 5, fetchAll: true });
+    assert.equal((result.incidents as unknown[]).length, 40);
+    assert.equal(result.hasMore, false);
+    // The last page ends exactly on the last row, and no empty request follows it.
+    assert.deepEqual(limits, [5, 11, 22, 44]);
+  }));
+
+test('sends Core an offset when it supports one', () =>
+  withEnv({ OPSORCH_CORE_PAGINATION_OFFSET: '1' }, async () => {
+    const all = incidents(4);
+    const bodies: Record<string, unknown>[] = [];
+    const request = async (body: Record<string, unknown>) => {
+      bodies.push(body);
+      return all.slice(body.offset as number, (body.offset as number) + (body.limit as number));
+    };
+
+    const first = await paginateQuery(request, spec, { limit: 2 });
+    assert.deepEqual((first.incidents as { id: string }[]).map((i) => i.id), ['inc-1', 'inc-0']);
+    const second = await paginateQuery(request, spec, { limit: 2, cursor: first.nextCursor as string });
+    assert.deepEqual((second.incidents as { id: string }[]).map((i) => i.id), ['inc-3', 'inc-2']);
+    assert.equal(second.hasMore, false);
+    assert.deepEqual(bodies, [
+      { offset: 0, limit: 3 },
+      { offset: 2, limit: 3 },
+    ]);
+  }));
+
+test('keeps non-list fields from Core responses such as the logs url', async () => {
+  const request = async () => ({ entries: [{ timestamp: '2025-01-01T00:00:00Z', message: 'boom' }], url: 'https://logs.example/q' });
+  const result = await paginateQuery(request, { key: 'entries', order: byNewest('timestamp') }, { limit: 10 });
+  assert.equal(result.url, 'https://logs.example/q');
+  assert.equal(result.hasMore, false);
+});
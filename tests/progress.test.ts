@@ -0,0 +1,158 @@
+import assert from 'node:assert/strict';
+import { test, mock } from 'node:test';
+import { CoreError } from '../src/errors';
+import { coreRequest } from '../src/index';
+import { paginateQuery, byField } from '../src/pagination';
+import { runWithToolCall } from '../src/progress';
+import { mcpHeaders, readMessages, realFetch, respond, withCoreApp, withEnv } from './helpers';
+
+const sampleURL = 'http://core.progress.test';
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  assert.ok(condition());
+}
+
+const coreEnv = { OPSORCH_CORE_URL: sampleURL, OPSORCH_CORE_TOKEN: 'test-token' };
+
+test('a client cancellation aborts the in-flight Core fetch without retrying', () =>
+  withEnv({ ...coreEnv, OPSORCH_CORE_MAX_RETRIES: '3' }, async () => {
+    let calls = 0;
+    const restore = mock.method(global, 'fetch', (_url: any, init: any) => {
+      calls++;
+      // Like the real fetch, an already-aborted signal rejects straight away.
+      return new Promise((_resolve, reject) => {
+        if (init.signal.aborted) {
+          reject(new Error('aborted'));
+        }
+        init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    });
+    const client = new AbortController();
+    try {
+      const pending = runWithToolCall(client.signal, undefined, () => coreRequest('/logs/query', 'POST', {}));
+      setTimeout(() => client.abort(), 10);
+      await assert.rejects(pending, (error: unknown) => {
+        assert.ok(error instanceof CoreError);
+        assert.equal(error.kind, 'cancelled');
+        assert.equal(error.retryable, false);
+        return true;
+      });
+      assert.equal(calls, 1);
+
+      const cancelled = runWithToolCall(client.signal, undefined, () => coreRequest('/logs/query', 'POST', {}));
+      await assert.rejects(cancelled, /cancelled by the MCP client/);
+    } finally {
+      restore.mock.restore();
+    }
+  }));
+
+test('a cancellation during retry backoff stops the retries', () =>
+  withEnv({ ...coreEnv, OPSORCH_CORE_MAX_RETRIES: '3', OPSORCH_CORE_RETRY_BASE_MS: '5000', OPSORCH_CORE_RETRY_MAX_MS: '5000' }, async () => {
+    let calls = 0;
+    const restore = mock.method(global, 'fetch', async () => {
+      calls++;
+      return new Response(JSON.stringify({ message: 'busy' }), { status: 503, headers: { 'retry-after': '2' } });
+    });
+    const client = new AbortController();
+    const startedAt = Date.now();
+    try {
+      const pending = runWithToolCall(client.signal, undefined, () => coreRequest('/logs/query', 'POST', {}));
+      setTimeout(() => client.abort(), 20);
+      await assert.rejects(pending, (error: unknown) => error instanceof CoreError && error.kind === 'cancelled');
+      assert.equal(calls, 1);
+      assert.ok(Date.now() - startedAt < 1000);
+    } finally {
+      restore.mock.restore();
+    }
+  }));
+
+test('retries and fetchAll pages are reported as progress', () =>
+  withEnv({ ...coreEnv, OPSORCH_CORE_MAX_RETRIES: '2', OPSORCH_CORE_RETRY_BASE_MS: '1', OPSORCH_CORE_RETRY_MAX_MS: '1' }, async () => {
+    let calls = 0;
+    const restore = mock.method(global, 'fetch', async (_url: any, init: any) => {
+      calls++;
+      if (calls === 1) {
+        return new Response(JSON.stringify({ message: 'busy' }), { status: 503 });
+      }
+      const { cursor } = JSON.parse(init.body);
+      return new Response(JSON.stringify(cursor ? { services: [{ name: 'b' }], nextCursor: null } : { services: [{ name: 'a' }], nextCursor: 'page-2' }), {
+        status: 200,
+      });
+    });
+    const sent: [number, string][] = [];
+    try {
+      const page = await runWithToolCall(
+        undefined,
+        async (progress, message) => {
+          sent.push([progress, message]);
+        },
+        () => paginateQuery((body) => coreRequest('/services/query', 'POST', body), { key: 'services', order: byField('name') }, { fetchAll: true })
+      );
+      assert.deepEqual(page.services, [{ name: 'a' }, { name: 'b' }]);
+      assert.deepEqual(
+        sent.map(([progress]) => progress),
+        [1, 2, 3]
+      );
+      assert.match(sent[0]![1], /^Retrying POST \/services\/query in \d+ms \(attempt 2 of 3\) after: OpsOrch Core 503: busy$/);
+      assert.equal(sent[1]![1], 'Fetched page 1 of services (1 so far)');
+      assert.equal(sent[2]![1], 'Fetched page 2 of services (2 so far)');
+    } finally {
+      restore.mock.restore();
+    }
+  }));
+
+test('HTTP tool calls stream progress and abort their Core fetch when cancelled', async () => {
+  let started = 0;
+  let aborted = 0;
+  const core = (path: string, init: any) => {
+    if (path === '/services/query') {
+      const { cursor } = JSON.parse(init.body);
+      return respond(cursor ? { services: [{ id: 'b', name: 'b' }], nextCursor: null } : { services: [{ id: 'a', name: 'a' }], nextCursor: 'page-2' });
+    }
+    // Like the real fetch, a pending request rejects once its signal aborts.
+    started++;
+    return new Promise<Response>((_resolve, reject) =>
+      init.signal.addEventListener('abort', () => {
+        aborted++;
+        reject(new Error('aborted'));
+      })
+    );
+  };
+
+  await withCoreApp(sampleURL, core, async ({ url }) => {
+    const send = (message: Record<string, unknown>, headers: Record<string, string> = {}, signal?: AbortSignal) =>
+      realFetch(url, { method: 'POST', headers: { ...mcpHeaders, ...headers }, body: JSON.stringify({ jsonrpc: '2.0', ...message }), ...(signal ? { signal } : {}) });
+
+    const init = await send({ id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } } });
+    const session = { 'mcp-session-id': init.headers.get('mcp-session-id')!, 'mcp-protocol-version': '2025-06-18' };
+    await readMessages(init);
+
+    const listed = await send(
+      { id: 2, method: 'tools/call', params: { name: 'query-services', arguments: { fetchAll: true, noCache: true }, _meta: { progressToken: 'walk' } } },
+      session
+    );
+    assert.equal(listed.headers.get('content-type'), 'text/event-stream');
+    const messages = (await readMessages(listed)) as { method?: string; params?: { progressToken: string; progress: number; message: string }; result?: unknown }[];
+    assert.deepEqual(
+      messages.filter((message) => message.method === 'notifications/progress').map((message) => message.params),
+      [
+        { progressToken: 'walk', progress: 1, message: 'Fetched page 1 of services (1 so far)' },
+        { progressToken: 'walk', progress: 2, message: 'Fetched page 2 of services (2 so far)' },
+      ]
+    );
+    assert.ok(messages[messages.length - 1]!.result);
+
+    // A cancelled request gets no response, so the client drops its own stream once the Core fetch is aborted.
+    const client = new AbortController();
+    const pending = send({ id: 3, method: 'tools/call', params: { name: 'get-incident', arguments: { id: 'inc-1' } } }, session, client.signal);
+    await waitFor(() => started === 1);
+    const cancelled = await send({ method: 'notifications/cancelled', params: { requestId: 3, reason: 'user stopped' } }, session);
+    assert.equal(cancelled.status, 202);
+    await waitFor(() => aborted === 1);
+    client.abort();
+    await pending.catch(() => undefined);
+  });
+});
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { respond, withCoreApp } from './helpers';
+
+const coreURL = 'http://core.prompts.test';
+
+test('prompts attach Core data and only reference registered tools', async () => {
+  const core = (path: string) => {
+    switch (path) {
+      case '/incidents/INC-5':
+        return respond({
+          id: 'INC-5',
+          title: 'Search latency',
+          status: 'open',
+          severity: 'sev2',
+          service: 'search',
+          createdAt: '2024-03-01T12:00:00Z',
+          updatedAt: '2024-03-01T12:00:00Z',
+        });
+      case '/incidents/INC-5/timeline':
+        return respond([{ id: 't1', incidentId: 'INC-5', at: '2024-03-01T12:02:00Z', kind: 'note', body: 'paged search on-call' }]);
+      case '/alerts/query':
+        return respond({ message: 'alert provider down' }, 503);
+      case '/incidents/query':
+        return respond([]);
+      case '/deployments/query':
+        return respond([]);
+      default:
+        return respond({ message: `unexpected ${path}` }, 500);
+    }
+  };
+
+  await withCoreApp(coreURL, core, async ({ rpc }) => {
+    const listed = await rpc('prompts/list');
+    assert.deepEqual(listed.result.prompts.map((prompt: any) => prompt.name).sort(), [
+      'draft-postmortem',
+      'draft-status-update',
+      'handoff-summary',
+      'triage-incident',
+    ]);
+
+    const tools = new Set(((await rpc('tools/list')).result.tools as { name: string }[]).map((tool) => tool.name));
+    const prompts: [string, Record<string, string>][] = [
+      ['triage-incident', { id: 'INC-5' }],
+      ['draft-status-update', { id: 'INC-5', audience: 'external' }],
+      ['draft-postmortem', { id: 'INC-5' }],
+      ['handoff-summary', { service: 'search' }],
+    ];
+    for (const [name, args] of prompts) {
+      const { result } = await rpc('prompts/get', { name, arguments: args });
+      const text = result.messages.map((message: any) => message.content.text).join('\n');
+      const referenced = [...text.matchAll(/`([a-z]+(?:-[a-z]+)+)`/g)].map((match) => match[1]!);
+      assert.ok(referenced.length > 0, name);
+      for (const tool of referenced) {
+        assert.ok(tools.has(tool), `${name} references unknown tool ${tool}`);
+      }
+    }
+
+    const { result: triage } = await rpc('prompts/get', { name: 'triage-incident', arguments: { id: 'INC-5' } });
+    assert.equal(triage.messages.length, 2);
+    assert.match(triage.messages[0].content.text, /`append-incident-timeline`/);
+    assert.match(triage.messages[1].content.text, /## Timeline \(opsorch:\/\/incidents\/INC-5\/timeline\)\n```json[\s\S]*paged search on-call/);
+    assert.match(triage.messages[1].content.text, /## Recent alerts for search\nUnavailable: OpsOrch Core 503: alert provider down/);
+
+    const invalid = await rpc('prompts/get', { name: 'handoff-summary', arguments: {} });
+    assert.match(invalid.error.message, /either id or service/);
+  }, { OPSORCH_ENABLE_WRITES: 'true' });
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { respond, withCoreApp } from './helpers';
+
+const coreURL = 'http://core.resources.test';
+
+test('resources list open incidents and known services and read through Core', async () => {
+  const incident = (id: string, status: string) => ({
+    id,
+    title: `Incident ${id}`,
+    status,
+    severity: 'sev2',
+    service: 'checkout',
+    createdAt: '2024-03-01T12:00:00Z',
+    updatedAt: '2024-03-01T12:00:00Z',
+  });
+  const paths: string[] = [];
+  const core = (path: string) => {
+    paths.push(path);
+    switch (path) {
+      case '/incidents/query':
+        return respond([incident('INC-1', 'open'), incident('INC-2', 'resolved')]);
+      case '/services/query':
+        return respond([{ id: 'checkout', name: 'Checkout API' }]);
+      case '/incidents/INC%2F1/timeline':
+        return respond([{ id: 't1', incidentId: 'INC/1', at: '2024-03-01T12:01:00Z', kind: 'note', body: 'paged' }]);
+      case '/teams/payments/members':
+        return respond({ message: 'no such team' }, 404);
+      default:
+        return respond({ message: `unexpected ${path}` }, 500);
+    }
+  };
+
+  await withCoreApp(coreURL, core, async ({ rpc }) => {
+    const templates = await rpc('resources/templates/list');
+    assert.deepEqual(templates.result.resourceTemplates.map((template: any) => template.uriTemplate).sort(), [
+      'opsorch://alerts/{id}',
+      'opsorch://incidents/{id}',
+      'opsorch://incidents/{id}/timeline',
+      'opsorch://orchestration/plans/{id}',
+      'opsorch://services/{id}',
+      'opsorch://teams/{id}/members',
+    ]);
+
+    const listed = await rpc('resources/list');
+    assert.deepEqual(
+      listed.result.resources.map((resource: any) => [resource.uri, resource.title]),
+      [
+        ['opsorch://incidents/INC-1', 'Incident INC-1'],
+        ['opsorch://services/checkout', 'Checkout API'],
+      ]
+    );
+
+    const service = await rpc('resources/read', { uri: 'opsorch://services/checkout' });
+    assert.equal(service.result.contents[0].mimeType, 'application/json');
+    assert.deepEqual(JSON.parse(service.result.contents[0].text), { id: 'checkout', name: 'Checkout API' });
+
+    const timeline = await rpc('resources/read', { uri: 'opsorch://incidents/INC%2F1/timeline' });
+    assert.equal(JSON.parse(timeline.result.contents[0].text)[0].body, 'paged');
+    assert.ok(paths.includes('/incidents/INC%2F1/timeline'));
+
+    const missing = await rpc('resources/read', { uri: 'opsorch://teams/payments/members' });
+    assert.match(missing.error.message, /no such team/);
+  });
+});
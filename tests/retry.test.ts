@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { test, mock } from 'node:test';
+import { coreRequest } from '../src/index';
+import { computeBackoffDelay, isIdempotentRequest, parseRetryAfter } from '../src/retry';
+import { withEnv } from './helpers';
+
+const sampleURL = 'http://localhost:8080';
+
+test('isIdempotentRequest covers GETs, query POSTs and writes with an idempotency key', () => {
+  assert.equal(isIdempotentRequest('GET', '/incidents/inc-1'), true);
+  assert.equal(isIdempotentRequest('POST', '/incidents/query'), true);
+  assert.equal(isIdempotentRequest('POST', '/metrics/describe'), false);
+  assert.equal(isIdempotentRequest('PATCH', '/incidents/inc-1'), false);
+  assert.equal(isIdempotentRequest('POST', '/tickets', true), true);
+});
+
+test('parseRetryAfter accepts delta-seconds and HTTP dates', () => {
+  const now = Date.parse('2025-01-01T00:00:00Z');
+  assert.equal(parseRetryAfter('3', now), 3000);
+  assert.equal(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now), 5000);
+  assert.equal(parseRetryAfter('soon', now), undefined);
+  assert.equal(parseRetryAfter(null, now), undefined);
+});
+
+test('computeBackoffDelay grows exponentially and respects the cap', () => {
+  const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 500 };
+  const top = () => 0.9999;
+  assert.equal(computeBackoffDelay(1, policy, top), 99);
+  assert.equal(computeBackoffDelay(2, policy, top), 199);
+  assert.equal(computeBackoffDelay(5, policy, top), 499);
+  assert.equal(computeBackoffDelay(3, policy, () => 0), 0);
+});
+
+test('coreRequest retries transient Core failures on query POSTs', async () => {
+  process.env.OPSORCH_CORE_URL = sampleURL;
+  process.env.OPSORCH_CORE_TOKEN = 'test-token';
+
+  let calls = 0;
+  const restore = mock.method(global, 'fetch', async () => {
+    calls++;
+    if (calls === 1) {
+      return new Response('<html>bad gateway</html>', { status: 502, statusText: 'Bad Gateway' });
+    }
+    if (calls === 2) {
+      return new Response(JSON.stringify({ message: 'slow down' }), { status: 429, headers: { 'Retry-After': '0' } });
+    }
+    return new Response(JSON.stringify([{ id: 'inc-1' }]), { status: 200 });
+  });
+
+  try {
+    await withEnv({ OPSORCH_CORE_MAX_RETRIES: '2', OPSORCH_CORE_RETRY_BASE_MS: '1' }, async () => {
+      const result = await coreRequest<unknown[]>('/incidents/query', 'POST', { limit: 1 });
+      assert.deepEqual(result, [{ id: 'inc-1' }]);
+      assert.equal(calls, 3);
+    });
+  } finally {
+    restore.mock.restore();
+  }
+});
+
+test('coreRequest gives up after the configured number of retries', async () => {
+  process.env.OPSORCH_CORE_URL = sampleURL;
+
+  let calls = 0;
+  const restore = mock.method(global, 'fetch', async () => {
+    calls++;
+    return new Response(JSON.stringify({ message: 'unavailable' }), { status: 503, statusText: 'Service Unavailable' });
+  });
+
+  try {
+    await withEnv({ OPSORCH_CORE_MAX_RETRIES: '1', OPSORCH_CORE_RETRY_BASE_MS: '1' }, async () => {
+      await assert.rejects(coreRequest('/incidents/inc-1', 'GET'), /OpsOrch Core 503: unavailable/);
+      assert.equal(calls, 2);
+    });
+  } finally {
+    restore.mock.restore();
+  }
+});
+
+test('coreRequest does not retry non-idempotent or client errors', async () => {
+  process.env.OPSORCH_CORE_URL = sampleURL;
+
+  let calls = 0;
+  const restore = mock.method(global, 'fetch', async (_url: any, init: any) => {
+    calls++;
+    return init?.method === 'PATCH'
+      ? new Response(JSON.stringify({ message: 'unavailable' }), { status: 503 })
+      : new Response(JSON.stringify({ message: 'missing' }), { status: 404 });
+  });
+
+  try {
+    await withEnv({ OPSORCH_CORE_MAX_RETRIES: '3', OPSORCH_CORE_RETRY_BASE_MS: '1' }, async () => {
+      await assert.rejects(coreRequest('/incidents/inc-1', 'PATCH', { status: 'resolved' }), /OpsOrch Core 503/);
+      await assert.rejects(coreRequest('/incidents/inc-1', 'GET'), /OpsOrch Core 404: missing/);
+      assert.equal(calls, 2);
+    });
+  } finally {
+    restore.mock.restore();
+  }
+});
+
+test('coreRequest retries keyed writes only when Core support is configured', async () => {
+  process.env.OPSORCH_CORE_URL = sampleURL;
+
+  let calls = 0;
+  const restore = mock.method(global, 'fetch', async () => {
+    calls++;
+    return new Response(JSON.stringify({ message: 'unavailable' }), { status: 503 });
+  });
+
+  try {
+    const createTicket = () => coreRequest('/tickets', 'POST', { title: 'Investigate' }, { idempotencyKey: 'step-1' });
+    await withEnv({ OPSORCH_CORE_MAX_RETRIES: '2', OPSORCH_CORE_RETRY_BASE_MS: '1', OPSORCH_CORE_RETRY_KEYED_WRITES: undefined }, async () => {
+      await assert.rejects(createTicket(), /OpsOrch Core 503/);
+      assert.equal(calls, 1);
+    });
+    await withEnv({ OPSORCH_CORE_MAX_RETRIES: '2', OPSORCH_CORE_RETRY_BASE_MS: '1', OPSORCH_CORE_RETRY_KEYED_WRITES: 'true' }, async () => {
+      await assert.rejects(createTicket(), /OpsOrch Core 503/);
+      assert.equal(calls, 4);
+    });
+  } finally {
+    restore.mock.restore();
+  }
+});
+
+test('coreRequest skips a retry whose Retry-After exceeds the deadline', async () => {
+  process.env.OPSORCH_CORE_URL = sampleURL;
+
+  let calls = 0;
+  const restore = mock.method(global, 'fetch', async () => {
+    calls++;
+    return new Response(JSON.stringify({ message: 'busy' }), { status: 503, headers: { 'Retry-After': '120' } });
+  });
+
+  try {
+    await withEnv({ OPSORCH_CORE_MAX_RETRIES: '3', OPSORCH_CORE_TIMEOUT_MS: '1000' }, async () => {
+      await assert.rejects(coreRequest('/alerts/query', 'POST', {}), /OpsOrch Core 503: busy/);
+      assert.equal(calls, 1);
+    });
+  } finally {
+    restore.mock.restore();
+  }
+});
@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { z } from 'zod';
+import { SessionRegistry } from '../src/sessions';
+import { readRpcError, withEnv, withHttpApp } from './helpers';
+
+function fakeSession() {
+  const session = {
+    closed: 0,
+    server: new McpServer({ name: 'test', version: '1.0.0' }),
+    transport: new StreamableHTTPServerTransport({ sessionIdGenerator: undefined }),
+  };
+  session.server.close = async () => void session.closed++;
+  return session;
+}
+
+const adminSessionsSchema = z.object({
+  active: z.number(),
+  sessions: z.array(z.object({ id: z.string(), requests: z.number() })),
+});
+
+test('SessionRegistry expires idle and over-age sessions and closes their servers', async () => {
+  let now = 0;
+  const registry = new SessionRegistry({ idleTimeoutMs: 100, maxAgeMs: 250, maxSessions: 2, sweepIntervalMs: 1000 }, () => now);
+  const idle = fakeSession();
+  const busy = fakeSession();
+  registry.add('idle', idle);
+  const busyEntry = registry.add('busy', busy);
+  assert.equal(registry.isFull(), true);
+
+  now = 90;
+  registry.touch(busyEntry, { jsonrpc: '2.0', id: 1, method: 'tools/call', params: {} });
+  now = 150;
+  assert.equal(await registry.sweep(), 1);
+  assert.equal(idle.closed, 1);
+  assert.deepEqual(
+    registry.list().map((entry) => [entry.id, entry.requests, entry.toolCalls]),
+    [['busy', 1, 1]]
+  );
+
+  // Activity does not extend a session past its maximum age.
+  now = 240;
+  registry.touch(busyEntry, { method: 'tools/list' });
+  now = 250;
+  assert.equal(registry.get('busy'), undefined);
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(busy.closed, 1);
+  assert.equal(registry.size, 0);
+});
+
+test('SessionRegistry keeps a session with an open stream past the idle timeout', async () => {
+  let now = 0;
+  const registry = new SessionRegistry({ idleTimeoutMs: 100, maxAgeMs: 1000, maxSessions: 2, sweepIntervalMs: 1000 }, () => now);
+  const listening = fakeSession();
+  const entry = registry.add('listening', listening);
+  const closeStream = registry.openStream(entry);
+
+  now = 500;
+  assert.equal(await registry.sweep(), 0);
+  assert.equal(registry.list()[0]!.openStreams, 1);
+
+  // Closing the stream counts as activity, so the idle timeout starts over from there.
+  closeStream();
+  closeStream();
+  assert.equal(entry.openStreams, 0);
+  now = 599;
+  assert.equal(await registry.sweep(), 0);
+  now = 600;
+  assert.equal(await registry.sweep(), 1);
+  assert.equal(listening.closed, 1);
+
+  const aged = registry.add('aged', fakeSession());
+  registry.openStream(aged);
+  now = 1600;
+  assert.equal(await registry.sweep(), 1);
+});
+
+test('HTTP initialize is refused with 503 once the session cap is reached', () =>
+  withEnv({ MCP_HTTP_MAX_SESSIONS: '1' }, () =>
+    withHttpApp(async ({ url, post }) => {
+      const initialize = () => post('initialize', { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } });
+
+      const first = await initialize();
+      assert.equal(first.status, 200);
+      assert.ok(first.headers.get('mcp-session-id'));
+
+      const second = await initialize();
+      assert.equal(second.status, 503);
+      assert.equal((await readRpcError(second)).code, -32000);
+
+      const admin = adminSessionsSchema.parse(await (await fetch(url.replace(/\/mcp$/, '/admin/sessions'))).json());
+      assert.equal(admin.active, 1);
+      assert.equal(admin.sessions[0]!.id, first.headers.get('mcp-session-id'));
+      assert.equal(admin.sessions[0]!.requests, 1);
+    })
+  ));
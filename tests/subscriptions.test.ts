@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { InitializeResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { ToolInputError } from '../src/errors';
+import { getCoreToken } from '../src/identity';
+import { SubscriptionPoller, describeChanges, type ResourceSnapshot } from '../src/subscriptions';
+import { readReply, readResult, realFetch, respond, withCoreApp } from './helpers';
+
+const coreURL = 'http://core.subscriptions.test';
+
+test('describeChanges reports status, severity, and new timeline entries', () => {
+  assert.deepEqual(describeChanges({ status: 'open', severity: 'sev2' }, { status: 'mitigated', severity: 'sev1' }), [
+    'status open -> mitigated',
+    'severity sev2 -> sev1',
+  ]);
+  assert.deepEqual(describeChanges({ timelineEntryIds: ['t1'] }, { timelineEntryIds: ['t1', 't2', 't3'] }), ['2 new timeline entries']);
+  assert.deepEqual(describeChanges({ timelineEntryIds: ['t1', 't2'] }, { timelineEntryIds: ['t2'] }), []);
+  assert.deepEqual(describeChanges({ status: 'open' }, { status: 'open' }), []);
+});
+
+test('SubscriptionPoller notifies each subscriber once per change and enforces limits', async () => {
+  const state = new Map<string, ResourceSnapshot>([
+    ['opsorch://incidents/A', { status: 'open', severity: 'sev2' }],
+    ['opsorch://incidents/B', { status: 'open', severity: 'sev3' }],
+  ]);
+  let failing = false;
+  const tokens: (string | undefined)[] = [];
+  const poller = new SubscriptionPoller({ pollIntervalMs: 60_000, maxPerSession: 2, maxTotal: 3 }, async (uri) => {
+    tokens.push(getCoreToken());
+    if (failing) {
+      throw new Error('core down');
+    }
+    return { ...state.get(uri)! };
+  });
+  const received: string[] = [];
+  const notifier = (name: string) => async (uri: string, changes: string[]) => {
+    received.push(`${name} ${uri} ${changes.join('; ')}`);
+  };
+
+  await poller.subscribe('opsorch://incidents/A', 's1', notifier('s1'), { token: 'token-1' });
+  await poller.subscribe('opsorch://incidents/A', 's1', notifier('s1'), { token: 'token-1' });
+  await poller.subscribe('opsorch://incidents/B', 's1', notifier('s1'), { token: 'token-1' });
+  await poller.subscribe('opsorch://incidents/A', 's2', notifier('s2'), { token: 'token-1' });
+  assert.equal(poller.size, 3);
+  await assert.rejects(poller.subscribe('opsorch://incidents/C', 's1', notifier('s1'), undefined), (error: unknown) => {
+    assert.ok(error instanceof ToolInputError);
+    assert.match(error.message, /at most 2 resources per session/);
+    return true;
+  });
+  await assert.rejects(poller.subscribe('opsorch://incidents/B', 's3', notifier('s3'), undefined), /already watches 3 subscriptions/);
+
+  assert.equal(await poller.poll(), 0);
+  state.set('opsorch://incidents/A', { status: 'resolved', severity: 'sev2' });
+  failing = true;
+  assert.equal(await poller.poll(), 0);
+  failing = false;
+  assert.equal(await poller.poll(), 2);
+  assert.deepEqual(received.sort(), ['s1 opsorch://incidents/A status open -> resolved', 's2 opsorch://incidents/A status open -> resolved']);
+  assert.ok(tokens.every((token) => token === 'token-1'));
+
+  poller.unsubscribe('opsorch://incidents/A', 's2');
+  poller.removeSubscriber('s1');
+  assert.equal(poller.size, 0);
+  poller.stop();
+});
+
+test('HTTP sessions receive resources/updated on their SSE stream', async () => {
+  const incident = { id: 'INC-1', title: 'Checkout errors', status: 'open', severity: 'sev2', createdAt: '2024-03-01T12:00:00Z', updatedAt: '2024-03-01T12:00:00Z' };
+  const core = (path: string) => (path === '/incidents/INC-1' ? respond(incident) : respond({ message: `unexpected ${path}` }, 404));
+
+  await withCoreApp(coreURL, core, async ({ url, post, subscriptions }) => {
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    try {
+      const init = await post('initialize', { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } });
+      assert.equal((await readResult(init, InitializeResultSchema)).capabilities.resources?.subscribe, true);
+      const session = { 'mcp-session-id': init.headers.get('mcp-session-id')!, 'mcp-protocol-version': '2025-06-18' };
+      const rpc = async (method: string, params: Record<string, unknown>) => readReply(await post(method, params, session));
+
+      const stream = await realFetch(url, { method: 'GET', headers: { ...session, Accept: 'text/event-stream' } });
+      assert.equal(stream.status, 200);
+      reader = stream.body!.getReader();
+
+      assert.deepEqual((await rpc('resources/subscribe', { uri: 'opsorch://incidents/INC-1' })).result, {});
+      const unsupported = await rpc('resources/subscribe', { uri: 'opsorch://services/checkout' });
+      assert.equal(unsupported.error.code, -32602);
+      assert.match(unsupported.error.message, /does not support subscriptions/);
+
+      incident.status = 'mitigated';
+      assert.equal(await subscriptions.poll(), 1);
+      let received = '';
+      while (!received.includes('\n\n')) {
+        const { value } = await reader.read();
+        received += new TextDecoder().decode(value);
+      }
+      const message = JSON.parse(/^data: (.*)$/m.exec(received)![1]!);
+      assert.equal(message.method, 'notifications/resources/updated');
+      assert.deepEqual(message.params, { uri: 'opsorch://incidents/INC-1', _meta: { 'opsorch/changes': ['status open -> mitigated'] } });
+
+      await rpc('resources/unsubscribe', { uri: 'opsorch://incidents/INC-1' });
+      assert.equal(subscriptions.size, 0);
+    } finally {
+      await reader?.cancel();
+    }
+  });
+});
+
+test('a session holding its SSE stream open outlives the idle timeout with its subscriptions', async () => {
+  const incident = { id: 'INC-2', title: 'Search latency', status: 'open', severity: 'sev3', createdAt: '2024-03-01T12:00:00Z', updatedAt: '2024-03-01T12:00:00Z' };
+  const core = (path: string) => (path === '/incidents/INC-2' ? respond(incident) : respond({ message: `unexpected ${path}` }, 404));
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  await withCoreApp(
+    coreURL,
+    core,
+    async ({ url, post, sessions, subscriptions }) => {
+      const init = await post('initialize', { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } });
+      const session = { 'mcp-session-id': init.headers.get('mcp-session-id')!, 'mcp-protocol-version': '2025-06-18' };
+      const stream = await realFetch(url, { method: 'GET', headers: { ...session, Accept: 'text/event-stream' } });
+      const reader = stream.body!.getReader();
+      try {
+        await readReply(await post('resources/subscribe', { uri: 'opsorch://incidents/INC-2' }, session));
+
+        await wait(150);
+        assert.equal(await sessions.sweep(), 0);
+        incident.status = 'resolved';
+        assert.equal(await subscriptions.poll(), 1);
+        const { value } = await reader.read();
+        assert.match(new TextDecoder().decode(value), /notifications\/resources\/updated/);
+      } finally {
+        await reader.cancel();
+      }
+
+      // Once the stream closes the session idles out as usual and its subscriptions go with it.
+      let closed = 0;
+      for (let attempt = 0; attempt < 20 && closed === 0; attempt++) {
+        await wait(50);
+        closed = await sessions.sweep();
+      }
+      assert.equal(closed, 1);
+      assert.equal(subscriptions.size, 0);
+    },
+    { MCP_HTTP_SESSION_IDLE_TIMEOUT_MS: '100' }
+  );
+});
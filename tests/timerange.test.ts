@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseDuration, resolveTimeRange } from '../src/timerange';
+import { ToolInputError } from '../src/errors';
+import { respond, withCoreApp } from './helpers';
+
+const coreURL = 'http://core.timerange.test';
+const now = Date.parse('2024-03-01T12:00:00Z');
+const noIncidents = async (id: string): Promise<string> => {
+  throw new Error(`unexpected incident lookup ${id}`);
+};
+
+test('parseDuration accepts unit suffixes and rejects the rest', () => {
+  assert.equal(parseDuration('30s'), 30_000);
+  assert.equal(parseDuration('2h'), 7_200_000);
+  assert.throws(() => parseDuration('0m'), ToolInputError);
+  assert.throws(() => parseDuration('5 minutes'), /not valid/);
+});
+
+test('resolveTimeRange resolves now offsets, last, and step durations', async () => {
+  assert.deepEqual(await resolveTimeRange({ start: 'now-30m', step: '1m' }, noIncidents, now), {
+    start: '2024-03-01T11:30:00.000Z',
+    end: '2024-03-01T12:00:00.000Z',
+    step: 60,
+  });
+  assert.deepEqual(await resolveTimeRange({ start: 'last 2h', end: 'now-1h' }, noIncidents, now), {
+    start: '2024-03-01T10:00:00.000Z',
+    end: '2024-03-01T11:00:00.000Z',
+  });
+  assert.deepEqual(await resolveTimeRange({ start: '2024-03-01T09:00:00Z', end: '2024-03-01T10:00:00Z', step: 30 }, noIncidents, now), {
+    start: '2024-03-01T09:00:00Z',
+    end: '2024-03-01T10:00:00Z',
+    step: 30,
+  });
+});
+
+test('resolveTimeRange anchors to incidents and rejects bad ranges', async () => {
+  const anchors: string[] = [];
+  const anchor = async (id: string) => {
+    anchors.push(id);
+    return '2024-03-01T08:00:00Z';
+  };
+  assert.deepEqual(await resolveTimeRange({ start: 'incident:INC-123-15m', end: 'incident:INC-123+30m' }, anchor, now), {
+    start: '2024-03-01T07:45:00.000Z',
+    end: '2024-03-01T08:30:00.000Z',
+  });
+  assert.deepEqual(anchors, ['INC-123', 'INC-123']);
+
+  await assert.rejects(resolveTimeRange({ start: 'yesterday' }, noIncidents, now), /start "yesterday" is not a time/);
+  await assert.rejects(resolveTimeRange({ start: 'now-1h', end: 'last 5m' }, noIncidents, now), /end cannot be "last 5m"/);
+  await assert.rejects(resolveTimeRange({ start: 'now', end: 'now-1h' }, noIncidents, now), /must be before end/);
+  await assert.rejects(resolveTimeRange({ start: 'now-1h', step: '500ms' }, noIncidents, now), /whole number of seconds/);
+});
+
+test('query-metrics resolves an incident-anchored range and echoes it', async () => {
+  let sent: any;
+  const core = (path: string, init: any) => {
+    if (path === '/incidents/INC-123') {
+      return respond({ id: 'INC-123', title: 'Latency', status: 'open', severity: 'sev2', createdAt: '2024-03-01T08:00:00Z', updatedAt: '2024-03-01T08:00:00Z' });
+    }
+    sent = JSON.parse(init.body);
+    return respond([]);
+  };
+
+  await withCoreApp(coreURL, core, async ({ callTool }) => {
+    const args = { start: 'incident:INC-123-15m', end: 'incident:INC-123+15m', step: '1m' };
+    const result = await callTool('query-metrics', args);
+    const range = { start: '2024-03-01T07:45:00.000Z', end: '2024-03-01T08:15:00.000Z', step: 60 };
+
+    assert.equal(result.isError, undefined);
+    assert.deepEqual({ start: sent.start, end: sent.end, step: sent.step }, range);
+    assert.deepEqual(result._meta['opsorch/timeRange'], range);
+    assert.equal(result.content[result.content.length - 1].text, 'Resolved time range: 2024-03-01T07:45:00.000Z to 2024-03-01T08:15:00.000Z (step 60s)');
+  });
+});
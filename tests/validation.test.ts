@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { z } from 'zod';
+import { asValidatedContent } from '../src/index';
+import { ResponseValidationError } from '../src/errors';
+import { formatJsonPath, validateResponse } from '../src/validation';
+
+const incidentSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  severity: z.string(),
+  service: z.string().optional(),
+  createdAt: z.string().datetime(),
+});
+
+const validIncident = {
+  id: 'inc-1',
+  title: 'Checkout latency',
+  severity: 'sev2',
+  createdAt: '2025-01-01T10:00:00Z',
+};
+
+test('formatJsonPath renders zod paths as JSON paths', () => {
+  assert.equal(formatJsonPath([]), '$');
+  assert.equal(formatJsonPath([2, 'createdAt']), '$[2].createdAt');
+  assert.equal(formatJsonPath(['entries', 0, 'labels', 'pod']), '$.entries[0].labels.pod');
+});
+
+test('valid payloads pass every mode without warnings', () => {
+  for (const mode of ['strict', 'lenient', 'off'] as const) {
+    const result = validateResponse('get-incident', incidentSchema, validIncident, mode);
+    assert.deepEqual(result.data, validIncident);
+    assert.deepEqual(result.warnings, []);
+  }
+});
+
+test('strict mode rejects drift with the failing JSON paths', () => {
+  const drifted = [validIncident, { ...validIncident, id: 7, createdAt: 'yesterday' }];
+
+  assert.throws(
+    () => validateResponse('query-incidents', z.array(incidentSchema), drifted, 'strict'),
+    (error: unknown) => {
+      assert.ok(error instanceof ResponseValidationError);
+      assert.equal(error.tool, 'query-incidents');
+      assert.deepEqual(
+        error.issues.map((issue) => issue.path),
+        ['$[1].id', '$[1].createdAt']
+      );
+      return true;
+    }
+  );
+});
+
+test('lenient mode coerces scalar drift and reports it', () => {
+  const drifted = { ...validIncident, id: 42, service: null, createdAt: '2025-01-01T12:00:00+02:00' };
+
+  const result = validateResponse('get-incident', incidentSchema, drifted, 'lenient');
+
+  assert.deepEqual(result.data, { ...validIncident, id: '42', createdAt: '2025-01-01T10:00:00.000Z' });
+  assert.deepEqual(
+    result.warnings.map((warning) => warning.path).sort(),
+    ['$.createdAt', '$.id', '$.service']
+  );
+  assert.equal(drifted.id, 42, 'the original payload is left untouched');
+});
+
+test('lenient mode drops list items it cannot repair', () => {
+  const drifted = [validIncident, { id: 'inc-2', severity: 'sev1', createdAt: '2025-01-01T11:00:00Z' }, { ...validIncident, id: 'inc-3' }];
+
+  const result = validateResponse('query-incidents', z.array(incidentSchema), drifted, 'lenient');
+
+  assert.deepEqual(
+    (result.data as { id: string }[]).map((incident) => incident.id),
+    ['inc-1', 'inc-3']
+  );
+  assert.equal(result.warnings.length, 1);
+  assert.match(result.warnings[0]?.message ?? '', /dropped \$\[1\]/);
+});
+
+test('lenient mode rejects payloads it cannot repair at the root', () => {
+  assert.throws(() => validateResponse('get-incident', incidentSchema, { id: 'inc-1' }, 'lenient'), ResponseValidationError);
+});
+
+test('off mode forwards payloads untouched', () => {
+  const drifted = { unexpected: true };
+  assert.equal(validateResponse('get-incident', incidentSchema, drifted, 'off').data, drifted);
+});
+
+test('asValidatedContent attaches repair warnings to the tool result', () => {
+  const previous = process.env.OPSORCH_RESPONSE_VALIDATION;
+  process.env.OPSORCH_RESPONSE_VALIDATION = 'lenient';
+
+  try {
+    const result = asValidatedContent('get-incident', incidentSchema, { ...validIncident, id: 42 });
+    assert.deepEqual(result.structuredContent, { ...validIncident, id: '42' });
+    assert.equal(result.content.length, 2);
+    assert.match(result.content[1]?.text ?? '', /\$\.id: coerced/);
+    assert.deepEqual(result._meta?.['opsorch/validationWarnings'], [{ path: '$.id', message: 'coerced: Expected string, received number' }]);
+  } finally {
+    if (previous === undefined) {
+      delete process.env.OPSORCH_RESPONSE_VALIDATION;
+    } else {
+      process.env.OPSORCH_RESPONSE_VALIDATION = previous;
+    }
+  }
+});